@@ -0,0 +1,204 @@
+import { promises as fs } from 'fs'
+import { LoadedLevel, Problem, listGridFiles, findGridFile, loadLevel } from './levels'
+
+const USAGE = `Usage: hotzone <command> <root> [level] [options]
+
+Commands:
+  inspect    Print a summary of each level
+  validate   Check each level for parse and config problems
+  export     Write each level as JSON
+
+<root> is the Uprising install folder (the one holding GRIDS). Without [level]
+every .lfl in GRIDS is processed; the level name may omit the .lfl extension.
+
+Options:
+  --out <file>   export: write the JSON to a file instead of stdout
+  --strict       validate: fail on warnings as well as errors
+  --verbose      show byte offsets for problems in binary files
+`
+
+// Exit codes: problems found in the levels, and a command line that could not be understood
+const EXIT_PROBLEMS = 1
+const EXIT_USAGE = 2
+
+interface Options {
+    command: string
+    root: string
+    level?: string
+    out?: string
+    strict: boolean
+    verbose: boolean
+}
+
+function parseArgs(args: string[]): Options | null {
+    const positional: string[] = []
+    const options: Partial<Options> = { strict: false, verbose: false }
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i]
+        if (arg === '--out') options.out = args[++i]
+        else if (arg === '--strict') options.strict = true
+        else if (arg === '--verbose') options.verbose = true
+        else if (arg.startsWith('--')) return null
+        else positional.push(arg)
+    }
+    const [command, root, level, ...rest] = positional
+    if (!command || !root || rest.length > 0 || !['inspect', 'validate', 'export'].includes(command)) return null
+    if (args.includes('--out') && !options.out) return null
+    return { ...options, command, root, level } as Options
+}
+
+const heightRange = (level: LoadedLevel): [number, number] | null => {
+    const heights = level.slk?.heights
+    if (!heights || level.slk?.source?.binaryOffset === -1) return null
+    let min = 255
+    let max = 0
+    // Stored inverted, reported as display heights (0 low - 255 high) like the editor shows them
+    for (const raw of heights) {
+        const h = 255 - raw
+        if (h < min) min = h
+        if (h > max) max = h
+    }
+    return [min, max]
+}
+
+const formatProblem = (p: Problem, verbose = false) => {
+    const offset = verbose && p.offset !== undefined ? ` @0x${p.offset.toString(16).toUpperCase()}` : ''
+    return `  ${p.severity.toUpperCase().padEnd(7)} ${p.file}${p.line ? `:${p.line}` : ''}${offset}  ${p.message}`
+}
+
+function summarize(level: LoadedLevel): string {
+    const out: string[] = [`== ${level.name.toUpperCase()} (${level.files.lfl})`]
+    const { slk, files } = level
+
+    out.push(`Files:     SLK ${files.slk || '-'}, HZS ${files.hzs || '-'}, CAM ${files.cam || '-'}`)
+    out.push('Config:')
+    for (const line of level.lfl.lines) {
+        if (line.kind === 'entry') out.push(`  ${line.key.trim()} = ${line.value}`)
+    }
+
+    if (slk) {
+        const slots = slk.objects.filter(o => o.type === 'SLOT')
+        const models = slk.objects.filter(o => o.type.startsWith('OBJ_'))
+        const perModel = new Map<string, number>()
+        for (const o of models) perModel.set(o.modelName || o.type, (perModel.get(o.modelName || o.type) || 0) + 1)
+
+        out.push(`Textures:  ${slk.textures.length}`)
+        out.push(`Slots:     ${slots.length}`)
+        out.push(`Objects:   ${models.length}`)
+        const width = Math.max(0, ...[...perModel.keys()].map(k => k.length))
+        for (const [name, count] of [...perModel.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))) {
+            out.push(`  ${name.padEnd(width)}  ${count}`)
+        }
+
+        // Bases live in citadels and upgrades in objects, both tagged with their citadel block
+        const parts = [...slk.citadels, ...slk.objects].filter(o => o.citadel !== undefined)
+        const citadelIds = [...new Set(parts.map(c => c.citadel!))].sort((a, b) => a - b)
+        out.push(`Citadels:  ${citadelIds.length}`)
+        for (const id of citadelIds) {
+            const base = parts.find(c => c.citadel === id && c.type === 'CITADEL_BASE')
+            const upgrades = parts.filter(c => c.citadel === id && c.type === 'CITADEL_UPGRADE').length
+            out.push(`  #${id}  ${base ? `base at ${base.x}, ${base.z}` : 'no base'}, ${upgrades} upgrades`)
+        }
+
+        const range = heightRange(level)
+        out.push(`Heights:   ${range ? `${range[0]} - ${range[1]}` : 'n/a'}`)
+    }
+
+    if (level.cam) out.push(`Briefing:  ${level.cam.objective.split('\n')[0] || '(no objective)'}`)
+    if (level.script !== undefined) out.push(`Script:    ${level.script.split('\n').length} lines`)
+
+    const errors = level.problems.filter(p => p.severity === 'error').length
+    out.push(`Problems:  ${errors} errors, ${level.problems.length - errors} warnings`)
+    return out.join('\n')
+}
+
+// Everything the editor parses, minus the raw bytes kept only for writing files back
+function toJSON(level: LoadedLevel): object {
+    const { slk } = level
+    return {
+        name: level.name,
+        files: level.files,
+        config: level.config,
+        cam: level.cam && { ranking: level.cam.ranking, objective: level.cam.objective, spyInfo: level.cam.spyInfo, description: level.cam.description },
+        slk: slk && {
+            models: slk.models,
+            textures: slk.textures,
+            objects: slk.objects.map(({ source: _, ...o }) => o),
+            citadels: slk.citadels.map(({ source: _, ...o }) => o),
+            heights: Array.from(slk.heights),
+            textureIndices: Array.from(slk.textureIndices)
+        },
+        script: level.script,
+        problems: level.problems
+    }
+}
+
+async function main(args: string[]): Promise<number> {
+    const options = parseArgs(args)
+    if (!options) {
+        process.stderr.write(USAGE)
+        return EXIT_USAGE
+    }
+
+    const print = console.log
+
+    let gridFiles: string[]
+    try {
+        gridFiles = await listGridFiles(options.root)
+    } catch (e) {
+        process.stderr.write(`Cannot read ${options.root}/GRIDS: ${(e as Error).message}\n`)
+        return EXIT_PROBLEMS
+    }
+
+    let names = gridFiles.filter(f => f.toLowerCase().endsWith('.lfl')).sort()
+    if (options.level) {
+        const name = findGridFile(gridFiles, options.level) || findGridFile(gridFiles, `${options.level}.lfl`)
+        if (!name) {
+            process.stderr.write(`Level ${options.level} not found in ${options.root}/GRIDS\n`)
+            return EXIT_PROBLEMS
+        }
+        names = [name]
+    }
+
+    const levels: LoadedLevel[] = []
+    let failed = false
+    for (const name of names) {
+        try {
+            levels.push(await loadLevel(options.root, name, gridFiles))
+        } catch (e) {
+            failed = true
+            process.stderr.write(`${name}: ${(e as Error).message}\n`)
+        }
+    }
+
+    const failing = (p: Problem) => p.severity === 'error' || (options.strict && p.severity === 'warning')
+    if (levels.some(l => l.problems.some(p => p.severity === 'error'))) failed = true
+
+    switch (options.command) {
+        case 'inspect':
+            print(levels.map(summarize).join('\n\n'))
+            break
+        case 'validate': {
+            for (const level of levels) {
+                print(`${level.name.toUpperCase()}: ${level.problems.some(failing) ? 'FAIL' : 'OK'}`)
+                for (const p of level.problems) print(formatProblem(p, options.verbose))
+            }
+            if (levels.some(l => l.problems.some(failing))) failed = true
+            break
+        }
+        case 'export': {
+            // A single named level exports as an object, everything else as an array
+            const json = JSON.stringify(options.level && levels.length === 1 ? toJSON(levels[0]) : levels.map(toJSON), null, 2)
+            if (options.out) await fs.writeFile(options.out, json + '\n')
+            else print(json)
+            break
+        }
+    }
+
+    return failed ? EXIT_PROBLEMS : 0
+}
+
+main(process.argv.slice(2)).then(code => { process.exitCode = code }, (e) => {
+    process.stderr.write(`${(e as Error).stack || e}\n`)
+    process.exitCode = EXIT_PROBLEMS
+})
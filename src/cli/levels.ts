@@ -0,0 +1,104 @@
+import { join } from 'path'
+import { promises as fs } from 'fs'
+import { readTextFile } from '../main/encoding'
+import { gridsDirectory } from '../main/gameFiles'
+import { LevelParser, LflDocument, SlkData, CamData, ParseDiagnostic } from '../renderer/src/services/LevelParser'
+import { LflSchema } from '../renderer/src/services/LflSchema'
+
+export interface Problem {
+    severity: 'error' | 'warning'
+    file: string
+    line?: number   // 1-based
+    offset?: number // Byte offset, for binary files
+    message: string
+}
+
+const fromDiagnostic = (file: string, binary: boolean) => (d: ParseDiagnostic): Problem => ({
+    severity: d.severity, file, line: d.line, offset: binary ? d.offset : undefined, message: d.message
+})
+
+// One level read from disk the same way the editor reads it, plus whatever went wrong on the way
+export interface LoadedLevel {
+    name: string
+    files: { lfl: string, slk?: string, hzs?: string, cam?: string }
+    lfl: LflDocument
+    config: Record<string, string>
+    slk?: SlkData
+    slkBytes?: Uint8Array
+    cam?: CamData
+    script?: string
+    problems: Problem[]
+}
+
+export async function listGridFiles(root: string): Promise<string[]> {
+    const entries = await fs.readdir(await gridsDirectory(root) ?? join(root, 'GRIDS'), { withFileTypes: true })
+    return entries.filter(e => e.isFile()).map(e => e.name)
+}
+
+export async function listLevels(root: string): Promise<string[]> {
+    return (await listGridFiles(root)).filter(f => f.toLowerCase().endsWith('.lfl')).sort()
+}
+
+// Level files are named in whatever case the game's tools used, so names are matched case-insensitively
+export function findGridFile(gridFiles: string[], name: string): string | undefined {
+    const lower = name.trim().toLowerCase()
+    return gridFiles.find(f => f.toLowerCase() === lower)
+}
+
+export async function loadLevel(root: string, lflName: string, gridFiles: string[]): Promise<LoadedLevel> {
+    const problems: Problem[] = []
+    const grids = await gridsDirectory(root) ?? join(root, 'GRIDS')
+    const gridPath = (name: string) => join(grids, name)
+
+    const lflContent = (await readTextFile(gridPath(lflName))).content
+    const lfl = LevelParser.parseLFLDocument(lflContent)
+    const config = LevelParser.lflConfig(lfl)
+    if (LevelParser.serializeLFL(lfl) !== lflContent) {
+        problems.push({ severity: 'error', file: lflName, message: 'Does not round-trip through the parser unchanged' })
+    }
+    for (const issue of LflSchema.validate(lfl, gridFiles)) {
+        problems.push({ severity: issue.severity, file: lflName, line: issue.line + 1, message: `${issue.key.trim()}: ${issue.message}` })
+    }
+
+    const level: LoadedLevel = { name: lflName.replace(/\.lfl$/i, ''), files: { lfl: lflName }, lfl, config, problems }
+
+    const slkName = findGridFile(gridFiles, LflSchema.get(config, 'SLK_FILE') || '')
+    if (slkName) {
+        level.files.slk = slkName
+        try {
+            const bytes = new Uint8Array(await fs.readFile(gridPath(slkName)))
+            level.slkBytes = bytes
+            level.slk = LevelParser.parseSLK(bytes)
+            problems.push(...level.slk.diagnostics!.map(fromDiagnostic(slkName, true)))
+            if (level.slk.source?.binaryOffset !== -1) {
+                // Anything the editor would not write back byte for byte is a parser gap worth knowing about
+                const written = LevelParser.serializeSLK(level.slk)
+                if (written.length !== bytes.length || written.some((b, i) => b !== bytes[i])) {
+                    problems.push({ severity: 'error', file: slkName, message: 'Does not round-trip through the parser unchanged' })
+                }
+            }
+        } catch (e) {
+            problems.push({ severity: 'error', file: slkName, message: `Failed to parse: ${(e as Error).message}` })
+        }
+    }
+
+    // Same fallback as the editor: the script is usually named after the level
+    const hzsName = findGridFile(gridFiles, LflSchema.get(config, 'SCRIPT_FILE') || lflName.replace(/\.lfl$/i, '.hzs'))
+    if (hzsName) {
+        level.files.hzs = hzsName
+        level.script = (await readTextFile(gridPath(hzsName))).content
+    }
+
+    const camName = findGridFile(gridFiles, LflSchema.get(config, 'MAP_TEXT') || '')
+    if (camName) {
+        level.files.cam = camName
+        const content = (await readTextFile(gridPath(camName))).content
+        level.cam = LevelParser.parseCAM(content)
+        problems.push(...level.cam.diagnostics!.map(fromDiagnostic(camName, false)))
+        if (LevelParser.serializeCAM(level.cam) !== content) {
+            problems.push({ severity: 'error', file: camName, message: 'Does not round-trip through the parser unchanged' })
+        }
+    }
+
+    return level
+}
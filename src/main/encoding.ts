@@ -0,0 +1,74 @@
+import { promises as fs } from 'fs'
+
+// Encodings text game files are read and written in. Files that are plain ASCII are treated as
+// Windows-1252, which is what the game's own tools wrote.
+export type TextEncoding = 'utf-8' | 'utf-8-bom' | 'windows-1252'
+
+export interface TextFile {
+    content: string
+    encoding: TextEncoding
+}
+
+// Code points for bytes 0x80-0x9F. The five bytes Windows-1252 leaves undefined decode to the C1
+// control with the same value, so every byte survives a decode/encode round trip.
+const CP1252_HIGH = [
+    0x20AC, 0x0081, 0x201A, 0x0192, 0x201E, 0x2026, 0x2020, 0x2021, 0x02C6, 0x2030, 0x0160, 0x2039, 0x0152, 0x008D, 0x017D, 0x008F,
+    0x0090, 0x2018, 0x2019, 0x201C, 0x201D, 0x2022, 0x2013, 0x2014, 0x02DC, 0x2122, 0x0161, 0x203A, 0x0153, 0x009D, 0x017E, 0x0178
+]
+const CP1252_REVERSE = new Map(CP1252_HIGH.map((code, i) => [code, 0x80 + i]))
+
+export function detectEncoding(bytes: Uint8Array): TextEncoding {
+    if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return 'utf-8-bom'
+    if (!bytes.some(b => b >= 0x80)) return 'windows-1252'
+    try {
+        new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+        return 'utf-8'
+    } catch {
+        return 'windows-1252'
+    }
+}
+
+export function decodeText(bytes: Uint8Array, encoding: TextEncoding): string {
+    if (encoding === 'utf-8-bom') return new TextDecoder('utf-8', { ignoreBOM: true }).decode(bytes.subarray(3))
+    if (encoding === 'utf-8') return new TextDecoder('utf-8', { ignoreBOM: true }).decode(bytes)
+
+    let text = ''
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        const chunk = Array.from(bytes.subarray(i, i + 0x8000), b => b >= 0x80 && b < 0xA0 ? CP1252_HIGH[b - 0x80] : b)
+        text += String.fromCharCode(...chunk)
+    }
+    return text
+}
+
+// Characters Windows-1252 cannot represent are written as '?'
+export function encodeText(text: string, encoding: TextEncoding): Uint8Array {
+    if (encoding === 'utf-8' || encoding === 'utf-8-bom') {
+        const body = new TextEncoder().encode(text)
+        if (encoding === 'utf-8') return body
+        const bytes = new Uint8Array(body.length + 3)
+        bytes.set([0xEF, 0xBB, 0xBF])
+        bytes.set(body, 3)
+        return bytes
+    }
+
+    const bytes = new Uint8Array(text.length)
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i)
+        if (code < 0x80 || (code >= 0xA0 && code <= 0xFF)) {
+            bytes[i] = code
+        } else {
+            bytes[i] = CP1252_REVERSE.get(code) ?? 0x3F
+        }
+    }
+    return bytes
+}
+
+export async function readTextFile(filePath: string): Promise<TextFile> {
+    const bytes = await fs.readFile(filePath)
+    const encoding = detectEncoding(bytes)
+    return { content: decodeText(bytes, encoding), encoding }
+}
+
+export async function writeTextFile(filePath: string, content: string, encoding: TextEncoding): Promise<void> {
+    await fs.writeFile(filePath, encodeText(content, encoding))
+}
@@ -0,0 +1,142 @@
+import { basename, isAbsolute, join, relative, sep } from 'path'
+import { promises as fs } from 'fs'
+
+// Files a level is made of, named the way the game refers to them rather than by path
+export type GameFileKind = 'level' | 'slk' | 'hzs' | 'cam' | 'depths' | 'gohs' | 'texture'
+
+export interface GameFileRef {
+    kind: GameFileKind
+    // File name as written in the LFL (level, slk, hzs, cam), the level's base name (depths, gohs)
+    // or a texture name with or without extension. Either slash works as a separator.
+    name: string
+}
+
+// A file found in a stack of roots, with the index of the root it came from
+export interface LayeredFile {
+    path: string
+    name: string
+    layer: number
+}
+
+const splitName = (name: string) => name.trim().split(/[\\/]+/).filter(Boolean)
+
+// A name that stays inside the folder it is looked up in: not empty, not absolute (a leading
+// slash or a drive letter), and without '.' or '..' segments
+const isContainedName = (name: string) => {
+    const parts = splitName(name)
+    return parts.length > 0 && !/^\s*([\\/]|[a-z]:)/i.test(name) && parts.every(p => p !== '.' && p !== '..')
+}
+
+// Relative locations to try for a reference, most likely first
+function candidates(ref: GameFileRef): string[][] {
+    const parts = splitName(ref.name)
+    switch (ref.kind) {
+        case 'level':
+        case 'slk':
+        case 'hzs':
+        case 'cam':
+            return [['GRIDS', ...parts]]
+        case 'depths':
+            return [['GRIDS', 'depths', `${parts.join('')}.dph`]]
+        case 'gohs':
+            return [['GRIDS', 'gohs', `${parts.join('')}.tga`]]
+        case 'texture': {
+            const names = [parts]
+            if (!/\.[a-z0-9]+$/i.test(ref.name)) names.push([...parts.slice(0, -1), `${parts[parts.length - 1]}.tga`])
+            return names.flatMap(n => [n, ['TEXTURES', ...n]])
+        }
+    }
+}
+
+// Directory entry matching a name: the exact spelling when present, otherwise any casing of it
+async function findEntry(dir: string, name: string): Promise<string | null> {
+    let entries: string[]
+    try {
+        entries = await fs.readdir(dir)
+    } catch {
+        return null
+    }
+    if (entries.includes(name)) return name
+    const lower = name.toLowerCase()
+    return entries.find(e => e.toLowerCase() === lower) ?? null
+}
+
+/**
+ * Walks the segments from root one directory at a time, matching each case-insensitively.
+ * Returns the full path when every segment exists, otherwise null together with how far it got.
+ */
+async function walk(root: string, segments: string[]): Promise<{ path: string | null, resolved: string, rest: string[] }> {
+    let current = root
+    for (let i = 0; i < segments.length; i++) {
+        const entry = await findEntry(current, segments[i])
+        if (!entry) return { path: null, resolved: current, rest: segments.slice(i) }
+        current = join(current, entry)
+    }
+    return { path: current, resolved: current, rest: [] }
+}
+
+// Whether a path names a regular file; a directory with the same name doesn't count
+async function isFile(path: string): Promise<boolean> {
+    try {
+        return (await fs.stat(path)).isFile()
+    } catch {
+        return false
+    }
+}
+
+// Path of an existing file for the reference, or null when there is none in any casing
+export async function resolveGameFile(root: string, ref: GameFileRef): Promise<string | null> {
+    // An empty name would otherwise resolve to the folder it is looked up in, '..' to outside it
+    if (!isContainedName(ref.name)) return null
+    for (const segments of candidates(ref)) {
+        if (segments.length === 0) continue
+        const { path } = await walk(root, segments)
+        if (path && await isFile(path)) return path
+    }
+    return null
+}
+
+/**
+ * Path to save the reference to: the existing file when there is one, otherwise the first
+ * candidate location with its existing directories in their on-disk casing and the rest as named.
+ */
+export async function resolveGameFileForWrite(root: string, ref: GameFileRef): Promise<string> {
+    if (!isContainedName(ref.name)) throw new Error(`Cannot write ${ref.kind} file '${ref.name}': the name must stay inside the game folder`)
+    const existing = await resolveGameFile(root, ref)
+    const { resolved, rest } = existing ? { resolved: existing, rest: [] } : await walk(root, candidates(ref)[0])
+    const path = join(resolved, ...rest)
+    const inside = relative(root, path)
+    if (!inside || inside === '..' || inside.startsWith(`..${sep}`) || isAbsolute(inside)) throw new Error(`Cannot write ${ref.kind} file '${ref.name}' outside ${root}`)
+    return path
+}
+
+// The install's GRIDS directory in whatever case it was unpacked in
+export async function gridsDirectory(root: string): Promise<string | null> {
+    return (await walk(root, ['GRIDS'])).path
+}
+
+/**
+ * Looks a reference up in a stack of roots (base install first, then mods) and returns the copy
+ * in the highest layer that has one.
+ */
+export async function resolveInLayers(roots: string[], ref: GameFileRef): Promise<LayeredFile | null> {
+    for (let layer = roots.length - 1; layer >= 0; layer--) {
+        const path = await resolveGameFile(roots[layer], ref)
+        if (path) return { path, name: basename(path), layer }
+    }
+    return null
+}
+
+// Every file in the stack's GRIDS folders, one per name (compared case-insensitively) from the highest layer
+export async function listGridsInLayers(roots: string[]): Promise<LayeredFile[]> {
+    const files = new Map<string, LayeredFile>()
+    for (let layer = 0; layer < roots.length; layer++) {
+        const grids = await gridsDirectory(roots[layer])
+        if (!grids) continue
+        const entries = await fs.readdir(grids, { withFileTypes: true })
+        for (const e of entries) {
+            if (e.isFile()) files.set(e.name.toLowerCase(), { path: join(grids, e.name), name: e.name, layer })
+        }
+    }
+    return [...files.values()].sort((a, b) => a.name.localeCompare(b.name))
+}
@@ -1,7 +1,9 @@
 import { app, shell, BrowserWindow, ipcMain, dialog } from 'electron'
-import { join } from 'path'
+import { dirname, join } from 'path'
 import { promises as fs } from 'fs'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
+import { readTextFile, writeTextFile, TextEncoding } from './encoding'
+import { GameFileRef, listGridsInLayers, resolveGameFileForWrite, resolveInLayers } from './gameFiles'
 import icon from '../../resources/icon.png?asset'
 
 function createWindow(): void {
@@ -48,20 +50,56 @@ ipcMain.handle('dialog:openDirectory', async () => {
     }
 })
 
-ipcMain.handle('file:listLevels', async (_, rootPath) => {
+// Asks where to save and writes the data there. Resolves to the chosen path, or null if cancelled.
+ipcMain.handle('dialog:saveFile', async (_, data: Uint8Array, defaultPath: string, filters: { name: string, extensions: string[] }[]) => {
+    const { canceled, filePath } = await dialog.showSaveDialog({ defaultPath, filters })
+    if (canceled || !filePath) {
+        return null
+    }
+    await fs.writeFile(filePath, data)
+    return filePath
+})
+
+// Levels and GRIDS files across the root stack (base install, then mods), highest layer winning
+ipcMain.handle('file:listLevels', async (_, roots: string[]) => {
     try {
-        const gridsPath = join(rootPath, 'GRIDS')
-        const files = await fs.readdir(gridsPath)
-        // Filter for .lfl files (case insensitive)
-        return files.filter(f => f.toLowerCase().endsWith('.lfl'))
+        const files = await listGridsInLayers(roots)
+        return files.filter(f => f.name.toLowerCase().endsWith('.lfl')).map(({ name, layer }) => ({ name, layer }))
     } catch (error) {
         console.error('Failed to list levels:', error)
         return []
     }
 })
 
+ipcMain.handle('file:listGrids', async (_, roots: string[]) => {
+    try {
+        return (await listGridsInLayers(roots)).map(f => f.name)
+    } catch (error) {
+        console.error('Failed to list GRIDS:', error)
+        return []
+    }
+})
+
+// Logical game files to real paths, matched case-insensitively so Linux installs work too
+ipcMain.handle('file:resolve', async (_, roots: string[], ref: GameFileRef) => {
+    return await resolveInLayers(roots, ref)
+})
+
+// Where a save into one root of the stack lands, independent of the layer the file was read from
+ipcMain.handle('file:resolveForWrite', async (_, root: string, ref: GameFileRef) => {
+    return await resolveGameFileForWrite(root, ref)
+})
+
+// Writes create missing folders, since a mod layer may not have a GRIDS folder yet
+ipcMain.handle('file:writeBinary', async (_, filePath, data: Uint8Array) => {
+    await fs.mkdir(dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, data)
+    return true
+})
+
+// Text files come back with the encoding they were detected in, so saves can write the same bytes
 ipcMain.handle('file:read', async (_, filePath) => {
-    return await fs.readFile(filePath, 'utf-8')
+    return await readTextFile(filePath)
 })
 
 ipcMain.handle('file:readBinary', async (_, filePath) => {
@@ -70,8 +108,9 @@ ipcMain.handle('file:readBinary', async (_, filePath) => {
     return buffer
 })
 
-ipcMain.handle('file:write', async (_, filePath, content) => {
-    await fs.writeFile(filePath, content, 'utf-8')
+ipcMain.handle('file:write', async (_, filePath, content, encoding: TextEncoding = 'utf-8') => {
+    await fs.mkdir(dirname(filePath), { recursive: true })
+    await writeTextFile(filePath, content, encoding)
     return true
 })
 
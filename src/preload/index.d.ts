@@ -2,12 +2,44 @@ export interface IElectronAPI {
     loadPreferences: () => Promise<void>
 }
 
+export type TextEncoding = 'utf-8' | 'utf-8-bom' | 'windows-1252'
+
+export interface TextFile {
+    content: string
+    encoding: TextEncoding
+}
+
+export interface FileFilter {
+    name: string
+    extensions: string[]
+}
+
+export type GameFileKind = 'level' | 'slk' | 'hzs' | 'cam' | 'depths' | 'gohs' | 'texture'
+
+// A level file by role and name; depths and gohs take the level's base name
+export interface GameFileRef {
+    kind: GameFileKind
+    name: string
+}
+
+// A file from a stack of roots: layer 0 is the base install, higher layers are mods that override it
+export interface LayeredFile {
+    path: string
+    name: string
+    layer: number
+}
+
 export interface IAPI {
     openDirectory: () => Promise<string | null>
-    listLevels: (rootPath: string) => Promise<string[]>
-    readFile: (filePath: string) => Promise<string>
+    saveFile: (data: Uint8Array, defaultPath: string, filters: FileFilter[]) => Promise<string | null>
+    listLevels: (roots: string[]) => Promise<Omit<LayeredFile, 'path'>[]>
+    listGridFiles: (roots: string[]) => Promise<string[]>
+    resolveFile: (roots: string[], ref: GameFileRef) => Promise<LayeredFile | null>
+    resolveFileForWrite: (root: string, ref: GameFileRef) => Promise<string>
+    readFile: (filePath: string) => Promise<TextFile>
     readBinary: (filePath: string) => Promise<Uint8Array>
-    writeFile: (filePath: string, content: string) => Promise<boolean>
+    writeBinary: (filePath: string, data: Uint8Array) => Promise<boolean>
+    writeFile: (filePath: string, content: string, encoding?: TextEncoding) => Promise<boolean>
 }
 
 declare global {
@@ -4,10 +4,15 @@ import { electronAPI } from '@electron-toolkit/preload'
 // Custom APIs for renderer
 const api = {
     openDirectory: () => ipcRenderer.invoke('dialog:openDirectory'),
-    listLevels: (rootPath: string) => ipcRenderer.invoke('file:listLevels', rootPath),
+    saveFile: (data: Uint8Array, defaultPath: string, filters: { name: string, extensions: string[] }[]) => ipcRenderer.invoke('dialog:saveFile', data, defaultPath, filters),
+    listLevels: (roots: string[]) => ipcRenderer.invoke('file:listLevels', roots),
+    listGridFiles: (roots: string[]) => ipcRenderer.invoke('file:listGrids', roots),
+    resolveFile: (roots: string[], ref: { kind: string, name: string }) => ipcRenderer.invoke('file:resolve', roots, ref),
+    resolveFileForWrite: (root: string, ref: { kind: string, name: string }) => ipcRenderer.invoke('file:resolveForWrite', root, ref),
     readFile: (filePath: string) => ipcRenderer.invoke('file:read', filePath),
     readBinary: (filePath: string) => ipcRenderer.invoke('file:readBinary', filePath),
-    writeFile: (filePath: string, content: string) => ipcRenderer.invoke('file:write', filePath, content)
+    writeBinary: (filePath: string, data: Uint8Array) => ipcRenderer.invoke('file:writeBinary', filePath, data),
+    writeFile: (filePath: string, content: string, encoding?: string) => ipcRenderer.invoke('file:write', filePath, content, encoding)
 }
 
 // Global window declaration
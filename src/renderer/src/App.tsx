@@ -1,44 +1,220 @@
-import { useState, JSX } from 'react'
-import { LevelParser, LevelData } from './services/LevelParser'
-import { TerrainView } from './components/TerrainView'
+import { useState, useEffect, useRef, useCallback, useMemo, Fragment, JSX } from 'react'
+import { TGALoader } from 'three/addons/loaders/TGALoader.js'
+import { LevelParser, LevelData, SlkData, SlkLayer, LflDocument, CamData, ParseDiagnostic, SLK_FIRST_SHARED_CELL } from './services/LevelParser'
+import { TerrainView, GizmoMode, StrokePhase, CameraFocus } from './components/TerrainView'
 import { ScriptEditor } from './components/ScriptEditor'
+import { TacticalMap } from './components/TacticalMap'
+import { ScriptReferences } from './components/ScriptReferences'
+import { ProblemsPanel } from './components/ProblemsPanel'
+import { ModStack, layerLabel } from './components/ModStack'
+import { ParseLog, ParseLogEntry } from './components/ParseLog'
+import { NewSectorWizard } from './components/NewSectorWizard'
+import { LevelDiffPanel } from './components/LevelDiffPanel'
+import { LevelDiff, ObjectChange } from './services/LevelDiff'
+import { NewSector, NewSectorOptions, SectorTemplate } from './services/NewSector'
+import { ConfigEditor } from './components/ConfigEditor'
+import { BriefingEditor } from './components/BriefingEditor'
+import { HistoryPanel } from './components/HistoryPanel'
+import { ObjectInspector } from './components/ObjectInspector'
+import { ObjectOutliner, objectGroup } from './components/ObjectOutliner'
+import { BrushPanel } from './components/BrushPanel'
+import { TerrainDisplayPanel } from './components/TerrainDisplayPanel'
+import { HeightmapPanel, HeightSource } from './components/HeightmapPanel'
+import { TexturePalette } from './components/TexturePalette'
+import { LayerInspector } from './components/LayerInspector'
+import { LflSchema } from './services/LflSchema'
+import { ObjectEdits, ObjectId, ObjectPatch } from './services/ObjectEdits'
+import { HeightBrush, BrushSettings } from './services/HeightBrush'
+import { TexturePaint, PaintSettings } from './services/TexturePaint'
+import { EditHistory, EditMode, HistoryState } from './services/EditHistory'
+import { GlbExport } from './services/GlbExport'
+import { HeightmapIO } from './services/HeightmapIO'
+import { HzsScript } from './services/HzsScript'
+import { LevelLint, LinkedFile, LintLocation } from './services/LevelLint'
+import { Workers, WorkerJob } from './services/Workers'
+import { TerrainDisplayMode } from './services/TerrainSurface'
+import type { GameFileRef, TextEncoding } from '../../preload/index.d'
+
+type FileRole = 'lfl' | 'slk' | 'hzs' | 'cam'
+
+// A level file as loaded: how to find it again, and where it was read from (null when it doesn't exist yet)
+type OpenFile = { ref: GameFileRef, path: string | null, layer: number | null }
+
+// Each load gets a token; a load that is no longer the latest stops before touching any state.
+// Starting a load cancels the SLK parse of the one it supersedes.
+type LoadSlot = { token: number, job: WorkerJob<SlkData> | null }
 
 function App(): JSX.Element {
-    const [rootPath, setRootPath] = useState<string | null>(null)
-    const [levels, setLevels] = useState<string[]>([])
+    // Base install first, then mod folders in rising priority; saves go to the write layer
+    const [roots, setRoots] = useState<string[]>([])
+    const [writeLayer, setWriteLayer] = useState(0)
+    const [levels, setLevels] = useState<{ name: string, layer: number }[]>([])
+    const [gridFiles, setGridFiles] = useState<string[] | null>(null)
     const [selectedLevel, setSelectedLevel] = useState<string | null>(null)
 
     // Helper to keep track of file paths for saving
-    const [currentFiles, setCurrentFiles] = useState<{ lfl?: string, slk?: string, hzs?: string }>({})
+    const [currentFiles, setCurrentFiles] = useState<Partial<Record<FileRole, OpenFile>>>({})
+    // Encoding each text file was read in, so saves write it back the same way
+    const [fileEncodings, setFileEncodings] = useState<Record<string, TextEncoding>>({})
 
     // View Mode: 'TACTICAL' | 'COMMS'
-    const [viewMode, setViewMode] = useState<'TACTICAL' | 'COMMS'>('TACTICAL')
+    const [viewMode, setViewMode] = useState<'TACTICAL' | 'MAP' | 'COMMS'>('TACTICAL')
+
+    // Parsed Level Data, owned by the edit history so every change can be undone
+    const [history, setHistory] = useState<HistoryState | null>(null)
+    const levelData = history?.data ?? null
 
-    // Parsed Level Data
-    const [levelData, setLevelData] = useState<LevelData | null>(null)
+    // Object editing in the tactical view
+    const [selection, setSelection] = useState<ObjectId[]>([])
+    const [gizmoMode, setGizmoMode] = useState<GizmoMode>('translate')
+    const [snapToTerrain, setSnapToTerrain] = useState(true)
+    // Outliner groups whose markers are hidden, kept across levels
+    const [hiddenGroups, setHiddenGroups] = useState<Set<string>>(new Set())
+    const [terrainDisplay, setTerrainDisplay] = useState<TerrainDisplayMode>('raw')
+    const [exaggeration, setExaggeration] = useState(1)
+    const [placingModel, setPlacingModel] = useState<number | null>(null)
+
+    // Terrain brushes: sculpting heights or painting texture indices, at most one active
+    const [terrainTool, setTerrainTool] = useState<'sculpt' | 'paint' | null>(null)
+    const [brush, setBrush] = useState<BrushSettings>({ tool: 'raise', radius: 6, strength: 0.5, falloff: 0.5, height: 128 })
+    const [paint, setPaint] = useState<PaintSettings>({ mode: 'brush', index: 0, radius: 2 })
+
+    // SLK layer draped over the terrain by the layer inspector
+    const [inspectLayer, setInspectLayer] = useState<string | null>(null)
+    // Display height under the brush when the stroke started, for the flatten tool
+    const flattenHeight = useRef(0)
 
     // Script Data
     const [scriptContent, setScriptContent] = useState<string>('')
+    // The script as last loaded or saved; script edits don't go through the history
+    const [savedScript, setSavedScript] = useState<string>('')
+    const unsaved = (!!history && EditHistory.dirtyTargets(history).length > 0) || scriptContent !== savedScript
+
+    // Cross-references between the script and the map: a cell for the tactical camera, a line for the editor
+    const [cameraFocus, setCameraFocus] = useState<CameraFocus | null>(null)
+    const [scriptReveal, setScriptReveal] = useState<{ line: number, key: number } | null>(null)
+
+    // Files the level links to and whether they loaded, for the problems panel
+    const [linkedFiles, setLinkedFiles] = useState<LinkedFile[]>([])
+    const [configFocus, setConfigFocus] = useState<{ line: number, key: number } | null>(null)
+    // What the parsers had to work around while reading the level
+    const [parseLog, setParseLog] = useState<ParseLogEntry[]>([])
+    const [showNewSector, setShowNewSector] = useState(false)
+    // The level the current one is compared against: its saved files or another level
+    const [comparison, setComparison] = useState<{ label: string, data: LevelData } | null>(null)
+    const [showDiffHeatmap, setShowDiffHeatmap] = useState(true)
 
     const [status, setStatus] = useState<string>('SYSTEM READY')
+    const levelLoad = useRef<LoadSlot>({ token: 0, job: null })
+    // Bumped on every stack change, so only the latest relocation of the open files lands, and only
+    // while the level it looked up is still the open one
+    const stackToken = useRef(0)
+    const templateLoad = useRef<LoadSlot>({ token: 0, job: null })
+    const compareLoad = useRef<LoadSlot>({ token: 0, job: null })
+
+    // Starts the next load in a slot and returns the check for whether a later one has superseded it
+    const startLoad = (slot: LoadSlot) => {
+        slot.job?.cancel()
+        slot.job = null
+        const token = ++slot.token
+        return () => token !== slot.token
+    }
 
+    // Reads and parses an SLK in a worker with progress in the status bar; null once superseded
+    const parseSLKFile = async (slot: LoadSlot, stale: () => boolean, path: string): Promise<SlkData | null> => {
+        const bytes = await window.api.readBinary(path)
+        if (stale()) return null
+        setStatus('PARSING TERRAIN DATA...')
+        const job = Workers.parseSLK(bytes, progress => { if (!stale()) setStatus(`PARSING TERRAIN DATA ${Math.round(progress * 100)}%`) })
+        slot.job = job
+        const slk = await job.promise
+        return stale() ? null : slk
+    }
+
+    // Mounting a base install starts a fresh stack without mods
     const handleOpenFolder = async () => {
         setStatus('ACCESSING FILE SYSTEM...')
         const path = await window.api.openDirectory()
         if (path) {
-            setRootPath(path)
+            setRoots([path])
+            setWriteLayer(0)
             setStatus(`ROOT: ${path.toUpperCase()}`)
-            loadLevels(path)
+            loadLevels([path])
         } else {
             setStatus('SELECTION ABORTED')
         }
     }
 
-    const loadLevels = async (path: string) => {
+    const handleAddMod = async () => {
+        const path = await window.api.openDirectory()
+        if (!path) return
+        if (roots.includes(path)) {
+            setStatus('FOLDER ALREADY MOUNTED')
+            return
+        }
+        const next = [...roots, path]
+        setRoots(next)
+        setWriteLayer(next.length - 1)
+        loadLevels(next)
+        relocateOpenFiles(next)
+    }
+
+    const handleRemoveMod = (layer: number) => {
+        const next = roots.filter((_, i) => i !== layer)
+        setRoots(next)
+        setWriteLayer(writeLayer === layer ? next.length - 1 : writeLayer > layer ? writeLayer - 1 : writeLayer)
+        loadLevels(next)
+        relocateOpenFiles(next)
+    }
+
+    const handleMoveMod = (layer: number, direction: -1 | 1) => {
+        const other = layer + direction
+        const next = [...roots]
+        ;[next[layer], next[other]] = [next[other], next[layer]]
+        setRoots(next)
+        if (writeLayer === layer) setWriteLayer(other)
+        else if (writeLayer === other) setWriteLayer(layer)
+        loadLevels(next)
+        relocateOpenFiles(next)
+    }
+
+    // A changed stack can move the copy of an open file that wins to another layer, or drop it. The
+    // open level's files are looked up again, so layer labels and override notes use the new indices.
+    const relocateOpenFiles = async (stack: string[]) => {
+        if (!selectedLevel) return
+        const token = ++stackToken.current
+        const load = levelLoad.current.token
+        const baseName = selectedLevel.replace(/\.lfl$/i, '')
+        const linkedRef = (f: LinkedFile): GameFileRef => f.role === 'DPH' ? { kind: 'depths', name: baseName }
+            : f.role === 'TGA' ? { kind: 'gohs', name: baseName }
+                : { kind: f.role === 'SLK' ? 'slk' : f.role === 'HZS' ? 'hzs' : 'cam', name: f.name }
+        try {
+            const files = await Promise.all(Object.entries(currentFiles).map(async ([role, file]) => {
+                const found = file ? await window.api.resolveFile(stack, file.ref) : null
+                return [role, file && { ...file, path: found?.path ?? null, layer: found?.layer ?? null }] as const
+            }))
+            const linked = await Promise.all(linkedFiles.map(async f => ({ ...f, layer: (await window.api.resolveFile(stack, linkedRef(f)))?.layer })))
+            if (token !== stackToken.current || load !== levelLoad.current.token) return
+            // Saves write back in the encoding the file was read in, wherever it now resolves
+            const encodings = { ...fileEncodings }
+            for (const [role, file] of files) {
+                const before = currentFiles[role as FileRole]?.path
+                if (file?.path && before && fileEncodings[before]) encodings[file.path] = fileEncodings[before]
+            }
+            setCurrentFiles(Object.fromEntries(files))
+            setFileEncodings(encodings)
+            setLinkedFiles(linked)
+        } catch (e) {
+            console.error(e)
+        }
+    }
+
+    const loadLevels = async (stack: string[]) => {
         setStatus('SCANNING SECTOR...')
         try {
-            const files = await window.api.listLevels(path)
+            const files = await window.api.listLevels(stack)
             setLevels(files)
+            setGridFiles(await window.api.listGridFiles(stack))
             setStatus(`FOUND ${files.length} SECTORS`)
         } catch (e) {
             setStatus('SCAN FAILURE')
@@ -47,33 +223,51 @@ function App(): JSX.Element {
     }
 
     const handleLevelSelect = async (filename: string) => {
+        if (unsaved && !window.confirm('UNSAVED CHANGES WILL BE LOST. LOAD ANOTHER SECTOR?')) return
         setSelectedLevel(filename)
-        if (!rootPath) return
+        if (roots.length === 0) return
+
+        const stale = startLoad(levelLoad.current)
 
         // Reset View
         setViewMode('TACTICAL')
         setScriptContent('')
+        setSavedScript('')
+        setCameraFocus(null)
+        setScriptReveal(null)
+        setLinkedFiles([])
+        setParseLog([])
+        startLoad(compareLoad.current)
+        setComparison(null)
         setCurrentFiles({})
+        setFileEncodings({})
+        setSelection([])
+        setPlacingModel(null)
+        setTerrainTool(null)
+        setInspectLayer(null)
 
         setStatus(`DECRYPTING ${filename.toUpperCase()}...`)
 
+        const encodings: Record<string, TextEncoding> = {}
+        const readText = async (path: string) => {
+            const file = await window.api.readFile(path)
+            encodings[path] = file.encoding
+            return file.content
+        }
+        const resolve = (ref: GameFileRef) => window.api.resolveFile(roots, ref)
+
         try {
             // 1. Read LFL
-            const lflPath = `${rootPath}\\GRIDS\\${filename}`
-            const lflContent = await window.api.readFile(lflPath)
-            const config = LevelParser.parseLFL(lflContent)
+            const lflFile = await resolve({ kind: 'level', name: filename })
+            if (!lflFile) throw new Error(`${filename} not found`)
+            const lflContent = await readText(lflFile.path)
+            const lfl = LevelParser.parseLFLDocument(lflContent)
+            const config = LevelParser.lflConfig(lfl)
 
             // 2. Identify Linked Files
-            // Find SLK filename
-            let slkFileName = ''
-            let hzsFileName = ''
-            let camFileName = ''
-
-            Object.keys(config).forEach(k => {
-                if (k.toUpperCase() === 'SLK_FILE') slkFileName = config[k]
-                if (k.toUpperCase() === 'SCRIPT_FILE') hzsFileName = config[k]
-                if (k.toUpperCase() === 'MAP_TEXT') camFileName = config[k]
-            })
+            const slkFileName = LflSchema.get(config, 'SLK_FILE') || ''
+            let hzsFileName = LflSchema.get(config, 'SCRIPT_FILE') || ''
+            const camFileName = LflSchema.get(config, 'MAP_TEXT') || ''
 
             // Fallback for HZS if not strictly in config (often same name as level)
             if (!hzsFileName) {
@@ -81,11 +275,11 @@ function App(): JSX.Element {
             }
 
             // Load CAM
-            let camData = undefined
-            if (camFileName) {
-                const camPath = `${rootPath}\\GRIDS\\${camFileName}`
+            let camData: CamData | undefined = undefined
+            const camFile = camFileName ? await resolve({ kind: 'cam', name: camFileName }) : null
+            if (camFile) {
                 try {
-                    const camContent = await window.api.readFile(camPath)
+                    const camContent = await readText(camFile.path)
                     camData = LevelParser.parseCAM(camContent)
                 } catch (e) {
                     console.warn("Failed to read CAM", e)
@@ -93,102 +287,556 @@ function App(): JSX.Element {
             }
 
             // Load SLK
-            let slkData: any = { terrain: [], objects: [], citadels: [], textureIndices: new Uint16Array(0) }
-            if (slkFileName) {
-                const slkPath = `${rootPath}\\GRIDS\\${slkFileName}`
+            let slkData: SlkData = { terrain: [], textures: [], objects: [], citadels: [], textureIndices: new Uint16Array(0), heights: new Uint16Array(0), layers: [], models: {} }
+            const slkFile = slkFileName ? await resolve({ kind: 'slk', name: slkFileName }) : null
+            if (slkFile) {
                 try {
-                    const slkBuffer = await window.api.readBinary(slkPath)
-                    slkData = LevelParser.parseSLK(slkBuffer)
+                    const parsed = await parseSLKFile(levelLoad.current, stale, slkFile.path)
+                    if (!parsed) return
+                    slkData = parsed
                 } catch (e) {
                     console.warn("Failed to read SLK", e)
                 }
             }
+            if (stale()) return
 
             // Load HZS (Script)
-            let loadedScript = ''
-            const hzsPath = `${rootPath}\\GRIDS\\${hzsFileName}`
-            try {
-                loadedScript = await window.api.readFile(hzsPath)
-            } catch (e) {
-                console.warn("Failed to read HZS", e)
-                loadedScript = "// NO COMM LINK ESTABLISHED (FILE NOT FOUND)"
+            let loadedScript = "// NO COMM LINK ESTABLISHED (FILE NOT FOUND)"
+            // A missing script is created in the write layer on save
+            const hzsFile = await resolve({ kind: 'hzs', name: hzsFileName })
+            if (hzsFile) {
+                try {
+                    loadedScript = await readText(hzsFile.path)
+                } catch (e) {
+                    console.warn("Failed to read HZS", e)
+                }
             }
-            setScriptContent(loadedScript)
 
             // 3. Find DPH (Terrain)
             const baseName = filename.replace(/\.lfl$/i, '')
-            const dphPath = `${rootPath}\\GRIDS\\depths\\${baseName}.dph`
-
-            let dphResult: { heights: Uint16Array | null, dphTextureIndices?: Uint16Array | null } = { heights: null }
-            try {
-                const buffer = await window.api.readBinary(dphPath)
-                // @ts-ignore
-                dphResult = LevelParser.parseDPH(buffer)
-            } catch (e) {
-                // Try uppercase
+            let dphResult: { heights: Uint16Array | null, diagnostics: ParseDiagnostic[] } = { heights: null, diagnostics: [] }
+            const dphFile = await resolve({ kind: 'depths', name: baseName })
+            if (dphFile) {
                 try {
-                    const dphPathUpper = `${rootPath}\\GRIDS\\depths\\${baseName.toUpperCase()}.dph`
-                    const buffer = await window.api.readBinary(dphPathUpper)
-                    // @ts-ignore
-                    dphResult = LevelParser.parseDPH(buffer)
-                } catch (e2) {
-                    console.error("Failed to read DPH", e2)
+                    dphResult = LevelParser.parseDPH(await window.api.readBinary(dphFile.path))
+                } catch (e) {
+                    console.error("Failed to read DPH", e)
                 }
             }
 
-            // 4. Load Minimap (TGA) as Texture
-            // Try standard naming: GRIDS/gohs/Name.tga
+            // 4. Load Minimap (TGA) as Texture, GRIDS/gohs/Name.tga
             let textureUrl = null
-            const tgaPath = `${rootPath}\\GRIDS\\gohs\\${baseName}.tga`
-            try {
-                const tgaBuffer = await window.api.readBinary(tgaPath)
-                const blob = new Blob([tgaBuffer], { type: 'image/tga' })
-                textureUrl = URL.createObjectURL(blob)
-            } catch (e) {
-                console.warn("Failed to read TGA", e)
-                // Try uppercase
+            const tgaFile = await resolve({ kind: 'gohs', name: baseName })
+            if (tgaFile) {
                 try {
-                    const tgaPathUpper = `${rootPath}\\GRIDS\\gohs\\${baseName.toUpperCase()}.tga`
-                    const tgaBuffer = await window.api.readBinary(tgaPathUpper)
-                    const blob = new Blob([tgaBuffer], { type: 'image/tga' })
-                    textureUrl = URL.createObjectURL(blob)
-                } catch (e2) {
-                    console.warn("Failed to read TGA (upper)", e2)
+                    const tgaBuffer = await window.api.readBinary(tgaFile.path)
+                    textureUrl = URL.createObjectURL(new Blob([tgaBuffer], { type: 'image/tga' }))
+                } catch (e) {
+                    console.warn("Failed to read TGA", e)
                 }
             }
+            if (stale()) {
+                if (textureUrl) URL.revokeObjectURL(textureUrl)
+                return
+            }
 
-            // Store paths for saving
+            // Store references for saving
+            const open = (ref: GameFileRef, file: { path: string, layer: number } | null): OpenFile => ({ ref, path: file?.path ?? null, layer: file?.layer ?? null })
             setCurrentFiles({
-                lfl: lflPath,
-                slk: slkFileName ? `${rootPath}\\GRIDS\\${slkFileName}` : undefined,
-                hzs: hzsPath
+                lfl: open({ kind: 'level', name: filename }, lflFile),
+                slk: slkFile ? open({ kind: 'slk', name: slkFileName }, slkFile) : undefined,
+                hzs: open({ kind: 'hzs', name: hzsFileName }, hzsFile),
+                cam: camData && camFile ? open({ kind: 'cam', name: camFileName }, camFile) : undefined
             })
+            setFileEncodings(encodings)
+            setScriptContent(loadedScript)
+            setSavedScript(loadedScript)
+            setLinkedFiles([
+                ...(slkFileName ? [{ role: 'SLK' as const, name: slkFileName, loaded: !!slkData.source, layer: slkFile?.layer }] : []),
+                { role: 'HZS', name: hzsFileName, loaded: !!hzsFile && hzsFile.path in encodings, layer: hzsFile?.layer },
+                ...(camFileName ? [{ role: 'CAM' as const, name: camFileName, loaded: !!camData, layer: camFile?.layer }] : []),
+                { role: 'DPH', name: `depths/${baseName}.dph`, loaded: !!dphResult.heights, layer: dphFile?.layer },
+                { role: 'TGA', name: `gohs/${baseName}.tga`, loaded: !!textureUrl, layer: tgaFile?.layer }
+            ])
 
             // Use heights from SLK (Layer 5) instead of DPH
             // SLK Layer 5 at width 257 contains the correct heightmap
-            setLevelData({
+            setHistory(EditHistory.start({
                 config,
+                lfl,
                 cam: camData,
                 slk: slkData,
                 heightMap: slkData.heights || null,  // Use SLK heights instead of DPH
+                dphHeights: dphResult.heights,
                 textureIndices: slkData.textureIndices || null,
+                layers: slkData.layers,
                 textureUrl
-            })
+            }))
+
+            const log: ParseLogEntry[] = [
+                ...(slkData.diagnostics || []).map(d => ({ ...d, file: slkFile!.name, binary: true })),
+                ...(camData?.diagnostics || []).map(d => ({ ...d, file: camFile!.name, binary: false })),
+                ...dphResult.diagnostics.map(d => ({ ...d, file: dphFile!.name, binary: true }))
+            ]
+            setParseLog(log)
 
-            setStatus(`TACTICAL DISPLAY ACTIVE: ${baseName.toUpperCase()}`)
+            const errors = log.filter(d => d.severity === 'error').length
+            const warnings = log.length - errors
+            const notes = [errors && `${errors} PARSE ERRORS`, warnings && `${warnings} PARSE WARNINGS`].filter(Boolean)
+            setStatus(`TACTICAL DISPLAY ACTIVE: ${baseName.toUpperCase()}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`)
 
         } catch (e) {
+            if (stale()) return
             setStatus('DECRYPTION FAILURE')
             console.error(e)
         }
     }
 
+    // Reads what a new sector copies from an existing level; its SLK and script are optional.
+    // Null when another template was picked meanwhile.
+    const handleLoadTemplate = async (level: string): Promise<SectorTemplate | null> => {
+        const stale = startLoad(templateLoad.current)
+        const lflFile = await window.api.resolveFile(roots, { kind: 'level', name: level })
+        if (!lflFile) throw new Error(`${level} not found`)
+        const lfl = LevelParser.parseLFLDocument((await window.api.readFile(lflFile.path)).content)
+        const config = LevelParser.lflConfig(lfl)
+        const slkFileName = LflSchema.get(config, 'SLK_FILE') || ''
+        const slkFile = slkFileName ? await window.api.resolveFile(roots, { kind: 'slk', name: slkFileName }) : null
+        const hzsFile = await window.api.resolveFile(roots, { kind: 'hzs', name: LflSchema.get(config, 'SCRIPT_FILE') || level.replace(/\.lfl$/i, '.hzs') })
+        const slk = slkFile ? await parseSLKFile(templateLoad.current, stale, slkFile.path) : null
+        if (stale()) return null
+        const script = hzsFile ? (await window.api.readFile(hzsFile.path)).content : null
+        if (stale()) return null
+        setStatus(`TEMPLATE LOADED: ${level.toUpperCase()}`)
+        return { name: level, lfl, slk, script }
+    }
+
+    // Writes every file of a new sector into the write layer, then lists and opens it
+    const handleCreateSector = async (options: NewSectorOptions) => {
+        const files = NewSector.build(options)
+        const names = NewSector.fileNames(options.name)
+        const root = roots[writeLayer]
+        const write = async (ref: GameFileRef, data: string | Uint8Array) => {
+            const path = await window.api.resolveFileForWrite(root, ref)
+            return typeof data === 'string' ? window.api.writeFile(path, data, 'windows-1252') : window.api.writeBinary(path, data)
+        }
+        setStatus('DEPLOYING SECTOR...')
+        try {
+            // The wizard only checks the names directly in GRIDS; a sector's depths and minimap live
+            // in subfolders, and one already there in any layer is neither overwritten nor shadowed
+            for (const ref of [{ kind: 'depths', name: options.name }, { kind: 'gohs', name: options.name }] as GameFileRef[]) {
+                const existing = await window.api.resolveFile(roots, ref)
+                if (existing) throw new Error(`${existing.name} already exists in ${layerLabel(existing.layer)}`)
+            }
+            await write({ kind: 'slk', name: names.slk }, files.slk)
+            await write({ kind: 'hzs', name: names.hzs }, files.hzs)
+            await write({ kind: 'cam', name: names.cam }, files.cam)
+            await write({ kind: 'depths', name: options.name }, files.dph)
+            await write({ kind: 'gohs', name: options.name }, files.tga)
+            // The config goes last, so a failed write never lists a level with missing files
+            await write({ kind: 'level', name: names.lfl }, files.lfl)
+        } catch (e) {
+            setStatus('DEPLOYMENT FAILURE')
+            throw e
+        }
+        setShowNewSector(false)
+        await loadLevels(roots)
+        await handleLevelSelect(names.lfl)
+    }
+
+    /**
+     * Writes a level file into the write layer, wherever it was read from. Returns a note for the
+     * status line when a higher layer still has its own copy, which the game would load instead.
+     */
+    const saveToLayer = async (role: FileRole, write: (path: string) => Promise<unknown>): Promise<string> => {
+        const file = currentFiles[role]!
+        const path = await window.api.resolveFileForWrite(roots[writeLayer], file.ref)
+        await write(path)
+        if (file.layer !== null && file.layer > writeLayer) return ` (${layerLabel(file.layer)} OVERRIDES ${layerLabel(writeLayer)})`
+        setCurrentFiles(prev => ({ ...prev, [role]: { ...file, path, layer: writeLayer } }))
+        if (file.path && fileEncodings[file.path]) setFileEncodings(prev => ({ ...prev, [path]: prev[file.path!] }))
+        return ''
+    }
+
+    // New files and files that could not be read are written in the game's legacy encoding
+    const writeText = (role: FileRole, content: string) => {
+        const file = currentFiles[role]!
+        const encoding = (file.path && fileEncodings[file.path]) || 'windows-1252'
+        return saveToLayer(role, path => window.api.writeFile(path, content, encoding))
+    }
+
     const handleSaveScript = async () => {
         if (!currentFiles.hzs) return
+        const content = scriptContent
         setStatus('TRANSMITTING UPDATE...')
         try {
-            await window.api.writeFile(currentFiles.hzs, scriptContent)
-            setStatus('TRANSMISSION COMPLETE')
+            const note = await writeText('hzs', content)
+            setSavedScript(content)
+            setStatus(`TRANSMISSION COMPLETE${note}`)
+        } catch (e) {
+            setStatus('TRANSMISSION FAILURE')
+            console.error(e)
+        }
+    }
+
+    const handleLocate = (x: number, z: number) => {
+        setViewMode('TACTICAL')
+        setCameraFocus({ x, z, key: Date.now() })
+    }
+
+    const handleOpenScriptLine = (line: number) => {
+        setViewMode('COMMS')
+        setScriptReveal({ line, key: Date.now() })
+    }
+
+    const scriptObjects = useMemo(() => levelData ? [...levelData.slk.objects, ...levelData.slk.citadels] : [], [levelData?.slk])
+
+    // Script lines naming a selected object's model or a coordinate next to it
+    const selectionScriptRefs = useMemo(() => {
+        if (!levelData || selection.length === 0 || !scriptContent || viewMode !== 'TACTICAL') return []
+        const parsed = HzsScript.parse(scriptContent)
+        const outline = HzsScript.outline(scriptContent, parsed)
+        const lines = new Set<number>()
+        for (const id of selection) {
+            const obj = ObjectEdits.getObject(levelData.slk, id)
+            if (obj) HzsScript.linesMentioning(parsed, outline, obj).forEach(l => lines.add(l))
+        }
+        const text = scriptContent.split('\n')
+        return [...lines].sort((a, b) => a - b).map(line => ({ line, text: text[line].trim() }))
+    }, [levelData, selection, scriptContent, viewMode])
+
+    const problems = useMemo(() => levelData ? LevelLint.run(levelData, { files: linkedFiles, gridFiles }) : [], [levelData, linkedFiles, gridFiles])
+
+    const handleLocateProblem = (location: LintLocation) => {
+        if (location.kind === 'config') {
+            setConfigFocus({ line: location.line, key: Date.now() })
+            return
+        }
+        setSelection([location.id])
+        handleLocate(location.x, location.z)
+    }
+
+    const handleSelect = (ids: ObjectId[], additive: boolean) => {
+        if (!additive) {
+            setSelection(ids)
+            return
+        }
+        // Shift toggles single clicks and adds box selections
+        setSelection(prev => ids.length === 1 && prev.includes(ids[0])
+            ? prev.filter(id => id !== ids[0])
+            : [...prev, ...ids.filter(id => !prev.includes(id))])
+    }
+
+    // Every level edit goes through here so it lands in the history
+    const edit = (label: string, change: (data: LevelData) => Partial<LevelData> | null, mode: EditMode = 'once') => {
+        setHistory(prev => {
+            if (!prev) return prev
+            const changes = change(prev.data)
+            return changes ? EditHistory.record(prev, label, changes, mode) : prev
+        })
+    }
+
+    const endEdit = () => setHistory(prev => prev && EditHistory.end(prev))
+
+    const handleJump = (cursor: number) => setHistory(prev => prev && EditHistory.jump(prev, cursor))
+
+    const countLabel = (n: number) => n === 1 ? '1 OBJECT' : `${n} OBJECTS`
+
+    // A gizmo drag is one step, merged until the handle is released
+    const handleTransform = (patches: Record<ObjectId, ObjectPatch>, final: boolean) => {
+        const label = `${gizmoMode === 'rotate' ? 'ROTATE' : 'MOVE'} ${countLabel(Object.keys(patches).length)}`
+        edit(label, data => ({ slk: ObjectEdits.updateObjects(data.slk, patches) }), 'continue')
+        if (final) endEdit()
+    }
+
+    const handlePatch = (patches: Record<ObjectId, ObjectPatch>) => {
+        edit(`EDIT ${countLabel(Object.keys(patches).length)}`, data => ({ slk: ObjectEdits.updateObjects(data.slk, patches) }))
+    }
+
+    const handleDeleteSelection = () => {
+        if (selection.length === 0) return
+        edit(`DELETE ${countLabel(selection.length)}`, data => ({ slk: ObjectEdits.deleteObjects(data.slk, selection) }))
+        setSelection([])
+    }
+
+    const handlePlace = (x: number, z: number) => {
+        if (placingModel === null || !levelData) return
+        const y = ObjectEdits.terrainHeight(levelData.heightMap, x, z)
+        const { slk, id } = ObjectEdits.addModelObject(levelData.slk, placingModel, x, z, y)
+        edit(`PLACE ${levelData.slk.models[placingModel] || 'MODEL'}`, () => ({ slk }))
+        setSelection([id])
+    }
+
+    // Selections refer to objects by position in the SLK lists, drop ids an undo took away
+    useEffect(() => {
+        if (!levelData) return
+        setSelection(prev => {
+            const kept = prev.filter(id => ObjectEdits.getObject(levelData.slk, id))
+            return kept.length === prev.length ? prev : kept
+        })
+    }, [levelData?.slk])
+
+    const handlePlacingModelChange = (modelId: number | null) => {
+        setPlacingModel(modelId)
+        if (modelId !== null) setTerrainTool(null)
+    }
+
+    const handleTerrainToolChange = (tool: 'sculpt' | 'paint', active: boolean) => {
+        setTerrainTool(prev => active ? tool : (prev === tool ? null : prev))
+        if (active) setPlacingModel(null)
+    }
+
+    // Each brush stroke is one step, from pointer down to pointer up
+    const handleSculpt = (x: number, z: number, phase: StrokePhase) => {
+        if (phase === 'end') return endEdit()
+        edit(`SCULPT: ${brush.tool.toUpperCase()}`, data => {
+            if (!data.heightMap) return null
+            if (phase === 'start') flattenHeight.current = ObjectEdits.terrainHeight(data.heightMap, x, z)
+            return { heightMap: HeightBrush.apply(data.heightMap, x, z, brush, flattenHeight.current) }
+        }, phase === 'start' ? 'begin' : 'continue')
+    }
+
+    const handlePaint = (x: number, z: number, phase: StrokePhase) => {
+        if (phase === 'end') return endEdit()
+        // Fill and replace act once per click, only the brush keeps painting while dragging
+        if (paint.mode !== 'brush' && phase !== 'start') return
+        const name = levelData?.slk.textures[paint.index] || `#${paint.index}`
+        const label = `${paint.mode === 'fill' ? 'FILL' : paint.mode === 'replace' ? 'REPLACE' : 'PAINT'}: ${name}`
+        edit(label, data => {
+            if (!data.textureIndices || data.textureIndices.length === 0) return null
+            const indices = paint.mode === 'fill' ? TexturePaint.fill(data.textureIndices, x, z, paint.index)
+                : paint.mode === 'replace' ? TexturePaint.replaceAll(data.textureIndices, x, z, paint.index)
+                    : TexturePaint.brush(data.textureIndices, x, z, paint.radius, paint.index)
+            return { textureIndices: indices }
+        }, phase === 'start' ? 'begin' : 'continue')
+    }
+
+    // The inspector shows the known layers as edited, the rest as they were read
+    const inspectorLayers = useMemo((): SlkLayer[] => (levelData?.layers || []).map(layer => {
+        if (layer.id === 'texture' && levelData?.textureIndices) return { ...layer, values: levelData.textureIndices }
+        if (layer.id === 'height' && levelData?.heightMap) return { ...layer, values: levelData.heightMap }
+        return layer
+    }), [levelData?.layers, levelData?.textureIndices, levelData?.heightMap])
+    const overlayLayer = inspectorLayers.find(l => l.id === inspectLayer) || null
+
+    // Recomputed on every edit, so the diff shows what saving (or the other level) would change
+    const diff = useMemo(() => comparison && levelData ? LevelDiff.compare(comparison.data, levelData) : null, [comparison, levelData])
+    const terrainOverlay = useMemo(() => showDiffHeatmap && diff?.heatmap ? { name: 'CHANGED CELLS', values: diff.heatmap } : overlayLayer,
+        [showDiffHeatmap, diff?.heatmap, overlayLayer])
+
+    // Config and SLK of a level as they are on disk, which is all a comparison looks at. Null once a
+    // later comparison has superseded it.
+    const readForComparison = async (stale: () => boolean, lflPath: string, slkPath: string | null): Promise<LevelData | null> => {
+        const lfl = LevelParser.parseLFLDocument((await window.api.readFile(lflPath)).content)
+        const slk = slkPath ? await parseSLKFile(compareLoad.current, stale, slkPath) : null
+        if (stale()) return null
+        return {
+            config: LevelParser.lflConfig(lfl),
+            lfl,
+            slk: slk ?? { terrain: [], textures: [], objects: [], citadels: [], textureIndices: new Uint16Array(0), heights: new Uint16Array(0), layers: [], models: {} },
+            heightMap: slk?.heights ?? null,
+            textureIndices: slk?.textureIndices ?? null,
+            layers: slk?.layers ?? []
+        }
+    }
+
+    const handleCompare = async (level: string | null) => {
+        const stale = startLoad(compareLoad.current)
+        setStatus('RETRIEVING COMPARISON...')
+        try {
+            if (level === null) {
+                if (!currentFiles.lfl?.path) return
+                const data = await readForComparison(stale, currentFiles.lfl.path, currentFiles.slk?.path ?? null)
+                if (!data) return
+                setComparison({ label: 'saved version', data })
+            } else {
+                const lflFile = await window.api.resolveFile(roots, { kind: 'level', name: level })
+                if (!lflFile) throw new Error(`${level} not found`)
+                const config = LevelParser.lflConfig(LevelParser.parseLFLDocument((await window.api.readFile(lflFile.path)).content))
+                // A level without an SLK is compared on its config alone
+                const slkFileName = LflSchema.get(config, 'SLK_FILE') || ''
+                const slkFile = slkFileName ? await window.api.resolveFile(roots, { kind: 'slk', name: slkFileName }) : null
+                const data = await readForComparison(stale, lflFile.path, slkFile?.path ?? null)
+                if (!data) return
+                setComparison({ label: level.replace(/\.lfl$/i, ''), data })
+            }
+            setShowDiffHeatmap(true)
+            setStatus('COMPARISON ACTIVE')
+        } catch (e) {
+            setStatus('COMPARISON FAILURE')
+            console.error(e)
+        }
+    }
+
+    const hiddenObjects = useMemo(() => {
+        const ids = new Set<ObjectId>()
+        if (!levelData || hiddenGroups.size === 0) return ids
+        levelData.slk.objects.forEach((obj, i) => { if (hiddenGroups.has(objectGroup(obj))) ids.add(ObjectEdits.objectId('objects', i)) })
+        levelData.slk.citadels.forEach((obj, i) => { if (hiddenGroups.has(objectGroup(obj))) ids.add(ObjectEdits.objectId('citadels', i)) })
+        return ids
+    }, [levelData?.slk, hiddenGroups])
+
+    // A hidden object leaves the selection along with its marker
+    const handleHiddenChange = (groups: Set<string>) => {
+        setHiddenGroups(groups)
+        const slk = levelData?.slk
+        if (!slk) return
+        setSelection(prev => prev.filter(id => {
+            const obj = ObjectEdits.getObject(slk, id)
+            return !obj || !groups.has(objectGroup(obj))
+        }))
+    }
+
+    // Picking a row selects the object like clicking its marker, and brings the camera to it
+    const handleOutlinerSelect = (id: ObjectId, additive: boolean) => {
+        handleSelect([id], additive)
+        const obj = levelData && ObjectEdits.getObject(levelData.slk, id)
+        if (obj && !additive) setCameraFocus({ x: obj.x, z: obj.z, key: Date.now() })
+    }
+
+    const handleLocateChange = (change: ObjectChange) => {
+        setSelection(change.id ? [change.id] : [])
+        handleLocate(change.object.x, change.object.z)
+    }
+
+    // Resolves a texture name in the root stack (next to a root or in its TEXTURES) and returns a
+    // displayable URL. TGA is decoded here since the browser cannot show it directly.
+    const loadTexturePreview = useCallback(async (name: string): Promise<string | null> => {
+        if (roots.length === 0) return null
+        const path = (await window.api.resolveFile(roots, { kind: 'texture', name }))?.path
+        if (!path) return null
+        try {
+            const buffer = await window.api.readBinary(path)
+            if (!/\.tga$/i.test(path)) return URL.createObjectURL(new Blob([buffer]))
+            const texture = new TGALoader().parse(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer)
+            const { data, width, height } = texture.image as { data: Uint8Array, width: number, height: number }
+            const canvas = document.createElement('canvas')
+            canvas.width = width
+            canvas.height = height
+            canvas.getContext('2d')!.putImageData(new ImageData(new Uint8ClampedArray(data), width, height), 0, 0)
+            return canvas.toDataURL()
+        } catch (e) {
+            console.warn('Failed to load texture', path, e)
+            return null
+        }
+    }, [roots])
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement
+            // Text fields keep their own undo
+            if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return
+            if (e.ctrlKey || e.metaKey) {
+                const key = e.key.toLowerCase()
+                if (key === 'z' && !e.shiftKey) {
+                    e.preventDefault()
+                    setHistory(prev => prev && EditHistory.undo(prev))
+                } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+                    e.preventDefault()
+                    setHistory(prev => prev && EditHistory.redo(prev))
+                }
+                return
+            }
+            if (viewMode !== 'TACTICAL') return
+            if (e.key === 'Delete') handleDeleteSelection()
+            if (e.key === 'Escape') {
+                setSelection([])
+                setPlacingModel(null)
+                setTerrainTool(null)
+            }
+        }
+        window.addEventListener('keydown', handleKeyDown)
+        return () => window.removeEventListener('keydown', handleKeyDown)
+    })
+
+    const handleSaveSLK = async () => {
+        if (!currentFiles.slk || !levelData?.slk.source) return
+        setStatus('TRANSMITTING TERRAIN...')
+        try {
+            // Heights and texture indices are edited on LevelData, the rest lives on the SLK data
+            const bytes = LevelParser.serializeSLK({
+                ...levelData.slk,
+                heights: levelData.heightMap || levelData.slk.heights,
+                textureIndices: levelData.textureIndices || levelData.slk.textureIndices
+            })
+            const note = await saveToLayer('slk', path => window.api.writeBinary(path, bytes))
+            setHistory(prev => prev && EditHistory.markSaved(prev, 'slk'))
+            setStatus(`TERRAIN TRANSMITTED${note}`)
+        } catch (e) {
+            setStatus('TRANSMISSION FAILURE')
+            console.error(e)
+        }
+    }
+
+    // Layer 5 heights go out bright-for-high over the full 16-bit range, DPH values exactly as stored
+    const handleExportHeights = async (format: 'png' | 'raw', source: HeightSource) => {
+        const values = source === 'dph' ? levelData?.dphHeights : levelData?.heightMap && HeightmapIO.exportValues(levelData.heightMap)
+        if (!values || !selectedLevel) return
+        setStatus('PACKAGING HEIGHTMAP...')
+        try {
+            const bytes = format === 'png' ? await HeightmapIO.encodePNG(values, 256, 256) : HeightmapIO.encodeRAW(values)
+            const defaultName = `${selectedLevel.replace(/\.lfl$/i, '')}_${source}.${format}`
+            const filters = format === 'png' ? [{ name: '16-bit PNG', extensions: ['png'] }] : [{ name: '16-bit RAW', extensions: ['raw', 'r16'] }]
+            const path = await window.api.saveFile(bytes, defaultName, filters)
+            setStatus(path ? `HEIGHTMAP EXPORTED: ${path.toUpperCase()}` : 'EXPORT ABORTED')
+        } catch (e) {
+            setStatus('EXPORT FAILURE')
+            console.error(e)
+        }
+    }
+
+    const handleImportHeights = (heights: Uint16Array) => {
+        edit('IMPORT HEIGHTMAP', () => ({ heightMap: heights }))
+        setStatus('HEIGHTMAP IMPORTED')
+    }
+
+    // Typing into one config line merges into a single step, other changes are steps of their own
+    const handleConfigChange = (lfl: LflDocument) => {
+        const prevLines = levelData?.lfl?.lines || []
+        const line = prevLines.length === lfl.lines.length ? lfl.lines.findIndex((l, i) => l !== prevLines[i]) : -1
+        const label = line >= 0 ? `EDIT CONFIG LINE ${line + 1}` : 'EDIT CONFIG'
+        edit(label, () => ({ lfl, config: LevelParser.lflConfig(lfl) }), line >= 0 ? 'continue' : 'once')
+    }
+
+    const handleSaveConfig = async () => {
+        if (!currentFiles.lfl || !levelData?.lfl) return
+        setStatus('TRANSMITTING CONFIG...')
+        try {
+            const note = await writeText('lfl', LevelParser.serializeLFL(levelData.lfl))
+            setHistory(prev => prev && EditHistory.markSaved(prev, 'lfl'))
+            setStatus(`CONFIG TRANSMITTED${note}`)
+        } catch (e) {
+            setStatus('TRANSMISSION FAILURE')
+            console.error(e)
+        }
+    }
+
+    const handleExportGLB = async () => {
+        if (!levelData || !selectedLevel) return
+        setStatus('PACKAGING SCENE...')
+        try {
+            const baseName = selectedLevel.replace(/\.lfl$/i, '')
+            const bytes = await GlbExport.build(levelData, baseName, terrainDisplay)
+            const path = await window.api.saveFile(bytes, `${baseName}.glb`, [{ name: 'glTF Binary', extensions: ['glb'] }])
+            setStatus(path ? `SCENE EXPORTED: ${path.toUpperCase()}` : 'EXPORT ABORTED')
+        } catch (e) {
+            setStatus('EXPORT FAILURE')
+            console.error(e)
+        }
+    }
+
+    const handleBriefingChange = (cam: CamData) => {
+        const field = (['description', 'objective', 'spyInfo'] as const).find(f => cam[f] !== levelData?.cam?.[f])
+        edit(`EDIT BRIEFING: ${(field || 'text').toUpperCase()}`, () => ({ cam }), 'continue')
+    }
+
+    const handleSaveBriefing = async () => {
+        if (!currentFiles.cam || !levelData?.cam) return
+        setStatus('TRANSMITTING BRIEFING...')
+        try {
+            const note = await writeText('cam', LevelParser.serializeCAM(levelData.cam))
+            setHistory(prev => prev && EditHistory.markSaved(prev, 'cam'))
+            setStatus(`BRIEFING TRANSMITTED${note}`)
         } catch (e) {
             setStatus('TRANSMISSION FAILURE')
             console.error(e)
@@ -207,11 +855,21 @@ function App(): JSX.Element {
                 <div className="view-toggles" style={{ display: 'flex', gap: '10px', marginLeft: '20px' }}>
                     <div
                         className={`clickable ${viewMode === 'TACTICAL' ? 'active-mode' : ''}`}
-                        onClick={() => setViewMode('TACTICAL')}
+                        onClick={() => {
+                            setViewMode('TACTICAL')
+                            setCameraFocus(null)
+                        }}
                         style={{ color: viewMode === 'TACTICAL' ? '#00ff00' : '#444', cursor: 'pointer', borderBottom: viewMode === 'TACTICAL' ? '2px solid #00ff00' : 'none' }}
                     >
                         [TACTICAL]
                     </div>
+                    <div
+                        className={`clickable ${viewMode === 'MAP' ? 'active-mode' : ''}`}
+                        onClick={() => setViewMode('MAP')}
+                        style={{ color: viewMode === 'MAP' ? '#00ff00' : '#444', cursor: 'pointer', borderBottom: viewMode === 'MAP' ? '2px solid #00ff00' : 'none' }}
+                    >
+                        [MAP]
+                    </div>
                     <div
                         className={`clickable ${viewMode === 'COMMS' ? 'active-mode' : ''}`}
                         onClick={() => setViewMode('COMMS')}
@@ -223,7 +881,7 @@ function App(): JSX.Element {
 
                 <div className="status-bar" style={{ marginLeft: 'auto', marginRight: '20px', marginBottom: '5px' }}>
                     <span className="scramble-text clickable" onClick={handleOpenFolder} style={{ cursor: 'pointer', fontFamily: 'monospace' }}>
-                        [LOCATION: {rootPath ? rootPath : 'MOUNT DRIVE'}]
+                        [LOCATION: {roots.length > 0 ? `${roots[0]}${roots.length > 1 ? ` +${roots.length - 1} MODS` : ''}` : 'MOUNT DRIVE'}]
                     </span>
                 </div>
                 <div className="status-message" style={{ fontFamily: 'monospace', color: 'var(--color-alert)' }}>
@@ -242,15 +900,34 @@ function App(): JSX.Element {
                         ) : (
                             levels.map(lvl => (
                                 <div
-                                    key={lvl}
-                                    className={`list-item ${selectedLevel === lvl ? 'active' : ''}`}
-                                    onClick={() => handleLevelSelect(lvl)}
+                                    key={lvl.name}
+                                    className={`list-item ${selectedLevel === lvl.name ? 'active' : ''}`}
+                                    onClick={() => handleLevelSelect(lvl.name)}
                                 >
-                                    {lvl.replace('.lfl', '').replace('.LFL', '')}
+                                    {lvl.name.replace(/\.lfl$/i, '')}
+                                    {lvl.layer > 0 && <span style={{ float: 'right', fontSize: '0.8em', color: '#888' }}>{layerLabel(lvl.layer)}</span>}
                                 </div>
                             ))
                         )}
                     </div>
+                    {roots.length > 0 && (
+                        <div className="list-item clickable" onClick={() => setShowNewSector(true)} style={{ color: 'var(--color-primary)' }}>
+                            [+ NEW SECTOR]
+                        </div>
+                    )}
+                    {roots.length > 0 && (
+                        <>
+                            <div className="panel-header">ROOT STACK</div>
+                            <ModStack
+                                roots={roots}
+                                writeLayer={writeLayer}
+                                onAdd={handleAddMod}
+                                onRemove={handleRemoveMod}
+                                onMove={handleMoveMod}
+                                onWriteLayerChange={setWriteLayer}
+                            />
+                        </>
+                    )}
                 </aside>
 
                 <section className="hud-viewport">
@@ -261,16 +938,46 @@ function App(): JSX.Element {
                                 heightMap={levelData?.heightMap || null}
                                 objects={levelData?.slk?.objects}
                                 citadels={levelData?.slk?.citadels}
-                                textureUrl={levelData?.textureUrl}
+                                // Painting shows the index colours, the minimap would hide the edits
+                                textureUrl={terrainTool === 'paint' ? null : levelData?.textureUrl}
                                 textureIndices={levelData?.textureIndices}
+                                selection={selection}
+                                onSelect={handleSelect}
+                                onTransform={handleTransform}
+                                gizmoMode={gizmoMode}
+                                snapToTerrain={snapToTerrain}
+                                onPlace={placingModel !== null ? handlePlace : null}
+                                brushRadius={terrainTool === 'sculpt' ? brush.radius : terrainTool === 'paint' ? (paint.mode === 'brush' ? paint.radius : 0.5) : null}
+                                onBrushStroke={terrainTool === 'paint' ? handlePaint : handleSculpt}
+                                overlay={terrainOverlay}
+                                lockedFrom={terrainTool === 'paint' ? SLK_FIRST_SHARED_CELL : null}
+                                focus={cameraFocus}
+                                hidden={hiddenObjects}
+                                displayMode={terrainDisplay}
+                                exaggeration={exaggeration}
                             />
                         </>
+                    ) : viewMode === 'MAP' ? (
+                        <TacticalMap
+                            heightMap={levelData?.heightMap || null}
+                            textureIndices={levelData?.textureIndices}
+                            textureUrl={levelData?.textureUrl}
+                            objects={levelData?.slk?.objects || []}
+                            citadels={levelData?.slk?.citadels || []}
+                            selection={selection}
+                            hidden={hiddenObjects}
+                            onFocus={handleLocate}
+                        />
                     ) : (
                         <ScriptEditor
                             content={scriptContent}
                             onChange={setScriptContent}
                             onSave={handleSaveScript}
-                            fileName={currentFiles.hzs ? currentFiles.hzs.split('\\').pop() || 'UNKNOWN' : null}
+                            fileName={currentFiles.hzs ? currentFiles.hzs.ref.name.split(/[\\/]/).pop() || 'UNKNOWN' : null}
+                            encoding={currentFiles.hzs?.path ? fileEncodings[currentFiles.hzs.path] : undefined}
+                            objects={scriptObjects}
+                            onLocate={levelData?.heightMap ? handleLocate : undefined}
+                            reveal={scriptReveal}
                         />
                     )}
                 </section>
@@ -281,37 +988,155 @@ function App(): JSX.Element {
                         <div className="intel-section">
                             <div className="prop-grid-kv" style={{ display: 'grid', gridTemplateColumns: 'min-content 1fr', gap: '4px 12px' }}>
                                 <span className="prop-label" style={{ textAlign: 'right', color: '#888' }}>REGION</span>
-                                <span className="prop-value">{selectedLevel || 'N/A'}</span>
+                                <span className="prop-value">{selectedLevel || 'N/A'}{unsaved ? ' *' : ''}</span>
                                 <span className="prop-label" style={{ textAlign: 'right', color: '#888' }}>MODE</span>
                                 <span className="prop-value">{viewMode}</span>
+                                {roots.length > 1 && currentFiles.lfl && (
+                                    <>
+                                        <span className="prop-label" style={{ textAlign: 'right', color: '#888' }}>LFL</span>
+                                        <span className="prop-value">{layerLabel(currentFiles.lfl.layer ?? 0)}</span>
+                                    </>
+                                )}
+                                {roots.length > 1 && linkedFiles.filter(f => f.layer !== undefined).map(f => (
+                                    <Fragment key={f.role}>
+                                        <span className="prop-label" style={{ textAlign: 'right', color: '#888' }}>{f.role}</span>
+                                        <span className="prop-value" title={f.name}>{layerLabel(f.layer!)}</span>
+                                    </Fragment>
+                                ))}
                             </div>
+                            {levelData && (
+                                <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '6px' }}>
+                                    <button
+                                        onClick={handleExportGLB}
+                                        style={{ background: 'var(--color-primary-dim)', border: '1px solid var(--color-primary)', color: 'var(--color-text)', fontFamily: 'monospace', fontSize: '0.7em', cursor: 'pointer', padding: '1px 6px' }}
+                                    >
+                                        [EXPORT GLB]
+                                    </button>
+                                </div>
+                            )}
                         </div>
 
+                        {history && (
+                            <div className="intel-section">
+                                <div className="prop-label" style={{ color: '#aaa', marginBottom: '4px' }}>HISTORY</div>
+                                <HistoryPanel history={history} onJump={handleJump} />
+                            </div>
+                        )}
+
+                        {levelData && (
+                            <div className="intel-section">
+                                <div className="prop-label" style={{ color: '#aaa', marginBottom: '4px' }}>PROBLEMS</div>
+                                <ProblemsPanel problems={problems} onLocate={handleLocateProblem} />
+                            </div>
+                        )}
+
+                        {levelData && (
+                            <div className="intel-section">
+                                <div className="prop-label" style={{ color: '#aaa', marginBottom: '4px' }}>COMPARE</div>
+                                <LevelDiffPanel
+                                    levels={levels.map(l => l.name).filter(name => name !== selectedLevel)}
+                                    canCompareSaved={!!currentFiles.lfl?.path}
+                                    against={comparison?.label ?? null}
+                                    diff={diff}
+                                    heatmap={showDiffHeatmap}
+                                    onCompare={handleCompare}
+                                    onClear={() => { startLoad(compareLoad.current); setComparison(null) }}
+                                    onHeatmapChange={setShowDiffHeatmap}
+                                    onLocate={handleLocateChange}
+                                />
+                            </div>
+                        )}
+
+                        {levelData && (
+                            <div className="intel-section">
+                                <div className="prop-label" style={{ color: '#aaa', marginBottom: '4px' }}>PARSE LOG</div>
+                                <ParseLog entries={parseLog} />
+                            </div>
+                        )}
+
+                        {levelData && viewMode === 'TACTICAL' && (
+                            <div className="intel-section">
+                                <div className="prop-label" style={{ color: '#aaa', marginBottom: '4px' }}>OUTLINER</div>
+                                <ObjectOutliner
+                                    slk={levelData.slk}
+                                    selection={selection}
+                                    hidden={hiddenGroups}
+                                    onSelect={handleOutlinerSelect}
+                                    onHiddenChange={handleHiddenChange}
+                                />
+                            </div>
+                        )}
+
+                        {levelData && viewMode === 'TACTICAL' && (
+                            <div className="intel-section">
+                                <div className="prop-label" style={{ color: '#aaa', marginBottom: '4px' }}>OBJECTS</div>
+                                <ObjectInspector
+                                    slk={levelData.slk}
+                                    selection={selection}
+                                    onPatch={handlePatch}
+                                    onDelete={handleDeleteSelection}
+                                    gizmoMode={gizmoMode}
+                                    onGizmoModeChange={setGizmoMode}
+                                    snapToTerrain={snapToTerrain}
+                                    onSnapToTerrainChange={setSnapToTerrain}
+                                    placingModel={placingModel}
+                                    onPlacingModelChange={handlePlacingModelChange}
+                                    onSave={handleSaveSLK}
+                                    canSave={!!currentFiles.slk && !!levelData.slk.source}
+                                />
+                            </div>
+                        )}
+
+                        {scriptContent && selection.length > 0 && viewMode === 'TACTICAL' && (
+                            <div className="intel-section">
+                                <div className="prop-label" style={{ color: '#aaa', marginBottom: '4px' }}>SCRIPT REFS</div>
+                                <ScriptReferences lines={selectionScriptRefs} onOpen={handleOpenScriptLine} />
+                            </div>
+                        )}
+
+                        {levelData?.heightMap && viewMode === 'TACTICAL' && (
+                            <div className="intel-section">
+                                <div className="prop-label" style={{ color: '#aaa', marginBottom: '4px' }}>TERRAIN</div>
+                                <TerrainDisplayPanel mode={terrainDisplay} onModeChange={setTerrainDisplay} exaggeration={exaggeration} onExaggerationChange={setExaggeration} />
+                                <BrushPanel
+                                    settings={brush}
+                                    onChange={setBrush}
+                                    active={terrainTool === 'sculpt'}
+                                    onActiveChange={(active) => handleTerrainToolChange('sculpt', active)}
+                                />
+                                <HeightmapPanel hasDph={!!levelData.dphHeights} onExport={handleExportHeights} onImport={handleImportHeights} />
+                            </div>
+                        )}
+
+                        {levelData?.textureIndices && levelData.textureIndices.length > 0 && viewMode === 'TACTICAL' && (
+                            <div className="intel-section">
+                                <div className="prop-label" style={{ color: '#aaa', marginBottom: '4px' }}>TEXTURES</div>
+                                <TexturePalette
+                                    textures={levelData.slk.textures}
+                                    textureIndices={levelData.textureIndices}
+                                    settings={paint}
+                                    onChange={setPaint}
+                                    active={terrainTool === 'paint'}
+                                    onActiveChange={(active) => handleTerrainToolChange('paint', active)}
+                                    loadPreview={loadTexturePreview}
+                                />
+                            </div>
+                        )}
+
                         {levelData?.cam && (
-                            <>
-                                {levelData.cam.description && (
-                                    <div className="intel-section">
-                                        <div className="prop-label" style={{ color: '#aaa', marginBottom: '2px' }}>DESCRIPTION</div>
-                                        <div className="prop-value" style={{ fontSize: '0.8em', whiteSpace: 'pre-wrap', color: '#ccc' }}>
-                                            {levelData.cam.description.trim()}
-                                        </div>
-                                    </div>
-                                )}
-                                <div className="intel-section">
-                                    <div className="prop-label" style={{ color: '#aaa', marginBottom: '2px' }}>OBJECTIVE</div>
-                                    <div className="prop-value" style={{ fontSize: '0.8em', whiteSpace: 'pre-wrap', color: '#ccc' }}>
-                                        {levelData.cam.objective.trim() || 'No Objective Data'}
-                                    </div>
-                                </div>
-                                {levelData.cam.spyInfo && (
-                                    <div className="intel-section">
-                                        <div className="prop-label" style={{ color: '#aaa', marginBottom: '2px' }}>SPY INFO</div>
-                                        <div className="prop-value" style={{ fontSize: '0.8em', whiteSpace: 'pre-wrap', color: '#e6db74' }}>
-                                            {levelData.cam.spyInfo.trim()}
-                                        </div>
-                                    </div>
-                                )}
-                            </>
+                            <BriefingEditor
+                                cam={levelData.cam}
+                                onChange={handleBriefingChange}
+                                onSave={handleSaveBriefing}
+                                canSave={!!currentFiles.cam}
+                            />
+                        )}
+
+                        {levelData && viewMode === 'TACTICAL' && (
+                            <div className="intel-section">
+                                <div className="prop-label" style={{ color: '#aaa', marginBottom: '4px' }}>LAYERS</div>
+                                <LayerInspector layers={inspectorLayers} selected={inspectLayer} onSelect={setInspectLayer} />
+                            </div>
                         )}
 
                         {levelData && (
@@ -319,34 +1144,41 @@ function App(): JSX.Element {
                                 <div className="prop-label" style={{ color: '#aaa', marginBottom: '4px' }}>ENVIRONMENT</div>
                                 <div className="prop-grid-kv" style={{ display: 'grid', gridTemplateColumns: 'min-content 1fr', gap: '4px 12px' }}>
                                     <span style={{ fontSize: '0.7em', color: '#666', textAlign: 'right' }}>SKY:</span>
-                                    <span style={{ fontSize: '0.7em' }}>{levelData.config['POLY_SKY'] || 'DEFAULT'}</span>
+                                    <span style={{ fontSize: '0.7em' }}>{LflSchema.get(levelData.config, 'POLY_SKY') || 'DEFAULT'}</span>
                                     <span style={{ fontSize: '0.7em', color: '#666', textAlign: 'right' }}>FOG:</span>
-                                    <span style={{ fontSize: '0.7em' }}>{levelData.config['FOG_COLOR'] || '0'}</span>
+                                    <span style={{ fontSize: '0.7em' }}>{LflSchema.get(levelData.config, 'FOG_COLOR') || '0'}</span>
                                     <span style={{ fontSize: '0.7em', color: '#666', textAlign: 'right' }}>NBH:</span>
-                                    <span style={{ fontSize: '0.7em' }}>{levelData.config['NEIGHBOR_FILE'] || 'NONE'}</span>
+                                    <span style={{ fontSize: '0.7em' }}>{LflSchema.get(levelData.config, 'NEIGHBOR_FILE') || 'NONE'}</span>
                                 </div>
                             </div>
                         )}
 
-                        {levelData && (
+                        {levelData?.lfl && (
                             <div className="intel-section">
-                                <div className="prop-label" style={{ color: '#aaa', marginBottom: '4px' }}>RATES & CONFIG</div>
-                                {Object.entries(levelData.config).map(([k, v]) => {
-                                    // Filter for interesting keys only
-                                    const isInteresting = k.includes('RATE') || k.includes('LIFESPAN') || k.includes('POWERUP') || k.includes('DEFENSE')
-                                    if (!isInteresting) return null
-                                    return (
-                                        <div key={k} style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.7em', borderBottom: '1px solid #111' }}>
-                                            <span style={{ color: '#666' }}>{k}:</span>
-                                            <span style={{ color: '#bbb' }}>{v}</span>
-                                        </div>
-                                    )
-                                })}
+                                <div className="prop-label" style={{ color: '#aaa', marginBottom: '4px' }}>CONFIG</div>
+                                <ConfigEditor
+                                    doc={levelData.lfl}
+                                    onChange={handleConfigChange}
+                                    onSave={handleSaveConfig}
+                                    canSave={!!currentFiles.lfl}
+                                    gridFiles={gridFiles}
+                                    focusLine={configFocus}
+                                />
                             </div>
                         )}
                     </div>
                 </aside>
             </main>
+
+            {showNewSector && (
+                <NewSectorWizard
+                    levels={levels.map(l => l.name)}
+                    taken={gridFiles || []}
+                    onLoadTemplate={handleLoadTemplate}
+                    onCreate={handleCreateSector}
+                    onClose={() => setShowNewSector(false)}
+                />
+            )}
         </div>
     )
 }
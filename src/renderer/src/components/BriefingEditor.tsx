@@ -0,0 +1,62 @@
+import React from 'react'
+import { CamData } from '../services/LevelParser'
+
+interface BriefingEditorProps {
+    cam: CamData
+    onChange: (cam: CamData) => void
+    onSave: () => void
+    canSave: boolean
+}
+
+const FIELDS: { field: 'description' | 'objective' | 'spyInfo', label: string, color: string }[] = [
+    { field: 'description', label: 'DESCRIPTION', color: '#ccc' },
+    { field: 'objective', label: 'OBJECTIVE', color: '#ccc' },
+    { field: 'spyInfo', label: 'SPY INFO', color: '#e6db74' }
+]
+
+export const BriefingEditor: React.FC<BriefingEditorProps> = ({ cam, onChange, onSave, canSave }) => {
+    return (
+        <>
+            {FIELDS.map(({ field, label, color }) => (
+                <div className="intel-section" key={field}>
+                    <div className="prop-label" style={{ color: '#aaa', marginBottom: '2px' }}>{label}</div>
+                    <textarea
+                        className="prop-value"
+                        value={cam[field]}
+                        onChange={(e) => onChange({ ...cam, [field]: e.target.value })}
+                        rows={Math.min(12, Math.max(2, cam[field].split('\n').length))}
+                        placeholder={field === 'objective' ? 'No Objective Data' : ''}
+                        spellCheck={false}
+                        style={{
+                            width: '100%',
+                            boxSizing: 'border-box',
+                            fontSize: '0.8em',
+                            fontFamily: 'inherit',
+                            color,
+                            background: 'transparent',
+                            border: '1px solid #1a2a1a',
+                            resize: 'vertical'
+                        }}
+                    />
+                </div>
+            ))}
+            <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+                <button
+                    onClick={onSave}
+                    disabled={!canSave}
+                    style={{
+                        background: 'var(--color-primary-dim)',
+                        border: '1px solid var(--color-primary)',
+                        color: 'var(--color-text)',
+                        fontFamily: 'monospace',
+                        fontSize: '0.7em',
+                        cursor: 'pointer',
+                        padding: '1px 6px'
+                    }}
+                >
+                    [SAVE BRIEFING]
+                </button>
+            </div>
+        </>
+    )
+}
@@ -0,0 +1,76 @@
+import React from 'react'
+import { BrushSettings, BrushTool } from '../services/HeightBrush'
+
+interface BrushPanelProps {
+    settings: BrushSettings
+    onChange: (settings: BrushSettings) => void
+    active: boolean
+    onActiveChange: (active: boolean) => void
+}
+
+const buttonStyle: React.CSSProperties = {
+    background: 'var(--color-primary-dim)',
+    border: '1px solid var(--color-primary)',
+    color: 'var(--color-text)',
+    fontFamily: 'monospace',
+    fontSize: '1em',
+    cursor: 'pointer',
+    padding: '1px 4px'
+}
+
+const TOOLS: { tool: BrushTool, label: string }[] = [
+    { tool: 'raise', label: 'RAISE' },
+    { tool: 'lower', label: 'LOWER' },
+    { tool: 'smooth', label: 'SMOOTH' },
+    { tool: 'flatten', label: 'FLATTEN' },
+    { tool: 'noise', label: 'NOISE' },
+    { tool: 'set', label: 'SET' }
+]
+
+const Slider: React.FC<{ label: string, value: number, min: number, max: number, step: number, onChange: (value: number) => void }> = ({ label, value, min, max, step, onChange }) => (
+    <>
+        <span style={{ color: '#666', textAlign: 'right' }}>{label}:</span>
+        <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => onChange(parseFloat(e.target.value))} />
+        <span style={{ color: '#bbb', minWidth: '28px' }}>{value}</span>
+    </>
+)
+
+export const BrushPanel: React.FC<BrushPanelProps> = ({ settings, onChange, active, onActiveChange }) => {
+    const set = (patch: Partial<BrushSettings>) => onChange({ ...settings, ...patch })
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '0.7em' }}>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '3px' }}>
+                {TOOLS.map(({ tool, label }) => {
+                    const selected = active && settings.tool === tool
+                    return (
+                        <button
+                            key={tool}
+                            style={{ ...buttonStyle, opacity: selected ? 1 : 0.5, borderColor: selected ? 'var(--color-alert)' : 'var(--color-primary)' }}
+                            // Clicking the active tool puts the brush away
+                            onClick={() => {
+                                if (selected) {
+                                    onActiveChange(false)
+                                } else {
+                                    set({ tool })
+                                    onActiveChange(true)
+                                }
+                            }}
+                        >
+                            {label}
+                        </button>
+                    )
+                })}
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: 'min-content 1fr min-content', gap: '2px 6px', alignItems: 'center' }}>
+                <Slider label="RADIUS" value={settings.radius} min={1} max={32} step={1} onChange={(radius) => set({ radius })} />
+                <Slider label="STRENGTH" value={settings.strength} min={0.05} max={1} step={0.05} onChange={(strength) => set({ strength })} />
+                <Slider label="FALLOFF" value={settings.falloff} min={0} max={1} step={0.05} onChange={(falloff) => set({ falloff })} />
+                {settings.tool === 'set' && (
+                    <Slider label="HEIGHT" value={settings.height} min={0} max={255} step={1} onChange={(height) => set({ height })} />
+                )}
+            </div>
+            {active && <div style={{ color: 'var(--color-alert)' }}>DRAG ON TERRAIN TO SCULPT (RIGHT DRAG PANS)</div>}
+        </div>
+    )
+}
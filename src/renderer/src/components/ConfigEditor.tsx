@@ -0,0 +1,200 @@
+import React, { useEffect, useMemo, useRef } from 'react'
+import { LflDocument, LflLine } from '../services/LevelParser'
+import { LflSchema, LflKeySchema, LflIssue } from '../services/LflSchema'
+
+interface ConfigEditorProps {
+    doc: LflDocument
+    onChange: (doc: LflDocument) => void
+    onSave: () => void
+    canSave: boolean
+    gridFiles: string[] | null
+    // Line to scroll to and focus; a new key repeats it
+    focusLine?: { line: number, key: number } | null
+}
+
+type LflEntry = Extract<LflLine, { kind: 'entry' }>
+
+const inputStyle: React.CSSProperties = {
+    background: 'transparent',
+    border: '1px solid #1a2a1a',
+    color: '#bbb',
+    fontFamily: 'monospace',
+    fontSize: '1em',
+    padding: '1px 3px',
+    minWidth: 0
+}
+
+const buttonStyle: React.CSSProperties = {
+    background: 'var(--color-primary-dim)',
+    border: '1px solid var(--color-primary)',
+    color: 'var(--color-text)',
+    fontFamily: 'monospace',
+    fontSize: '1em',
+    cursor: 'pointer',
+    padding: '1px 6px'
+}
+
+const toHex = (n: number) => n.toString(16).padStart(2, '0')
+
+// Value input matching the key's schema; unknown keys and malformed values fall back to plain text
+const ValueInput: React.FC<{ schema: LflKeySchema | null, value: string, onChange: (value: string) => void, listId: string, gridFiles: string[] | null }> = ({ schema, value, onChange, listId, gridFiles }) => {
+    const textInput = (
+        <input
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            list={schema?.type === 'file' ? listId : undefined}
+            style={{ ...inputStyle, flex: 1 }}
+            spellCheck={false}
+        />
+    )
+
+    if (schema?.type === 'color') {
+        const color = LflSchema.parseColor(value)
+        if (!color) return textInput
+        return (
+            <div style={{ display: 'flex', gap: '2px', minWidth: 0 }}>
+                <input
+                    type="color"
+                    value={`#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}`}
+                    onChange={(e) => {
+                        const hex = e.target.value
+                        onChange(LflSchema.formatColor({
+                            ...color,
+                            r: parseInt(hex.slice(1, 3), 16),
+                            g: parseInt(hex.slice(3, 5), 16),
+                            b: parseInt(hex.slice(5, 7), 16)
+                        }))
+                    }}
+                    style={{ width: '22px', height: '16px', padding: 0, border: 'none', background: 'transparent' }}
+                />
+                {textInput}
+            </div>
+        )
+    }
+
+    if ((schema?.type === 'number' || schema?.type === 'integer') && !isNaN(Number(value))) {
+        return (
+            <input
+                type="number"
+                value={value}
+                min={schema.min}
+                max={schema.max}
+                step={schema.type === 'integer' ? 1 : 'any'}
+                onChange={(e) => onChange(e.target.value)}
+                style={inputStyle}
+            />
+        )
+    }
+
+    if (schema?.type === 'file' && gridFiles) {
+        const ext = schema.extension
+        const choices = ext ? gridFiles.filter(f => f.toLowerCase().endsWith(ext)) : gridFiles
+        return (
+            <div style={{ display: 'flex', minWidth: 0 }}>
+                {textInput}
+                <datalist id={listId}>
+                    {choices.map(f => <option key={f} value={f} />)}
+                </datalist>
+            </div>
+        )
+    }
+
+    return <div style={{ display: 'flex', minWidth: 0 }}>{textInput}</div>
+}
+
+export const ConfigEditor: React.FC<ConfigEditorProps> = ({ doc, onChange, onSave, canSave, gridFiles, focusLine }) => {
+    const rowRefs = useRef(new Map<number, HTMLDivElement>())
+
+    useEffect(() => {
+        if (!focusLine) return
+        const row = rowRefs.current.get(focusLine.line)
+        row?.scrollIntoView({ block: 'center' })
+        row?.querySelector('input')?.focus()
+    }, [focusLine?.key])
+
+    const issues = useMemo(() => LflSchema.validate(doc, gridFiles), [doc, gridFiles])
+    const issuesByLine = useMemo(() => {
+        const byLine = new Map<number, LflIssue[]>()
+        for (const issue of issues) byLine.set(issue.line, [...(byLine.get(issue.line) || []), issue])
+        return byLine
+    }, [issues])
+    const errorCount = issues.filter(i => i.severity === 'error').length
+
+    const updateEntry = (lineIdx: number, patch: Partial<Pick<LflEntry, 'key' | 'value'>>) => {
+        onChange({ lines: doc.lines.map((line, i) => i === lineIdx && line.kind === 'entry' ? { ...line, ...patch } : line) })
+    }
+
+    const removeEntry = (lineIdx: number) => {
+        onChange({ lines: doc.lines.filter((_, i) => i !== lineIdx) })
+    }
+
+    const addEntry = () => {
+        // New keys copy the spacing and line ending of the last entry and go right after it
+        let lastIdx = -1
+        doc.lines.forEach((line, i) => { if (line.kind === 'entry') lastIdx = i })
+        const template = lastIdx !== -1 ? doc.lines[lastIdx] as LflEntry : null
+        const entry: LflEntry = {
+            kind: 'entry',
+            key: 'NEW_KEY',
+            value: '',
+            indent: template?.indent ?? '',
+            beforeColon: template?.beforeColon ?? '',
+            afterColon: template?.afterColon ?? ' ',
+            trailing: template?.trailing.includes('\r') ? '\r' : ''
+        }
+        const lines = [...doc.lines]
+        lines.splice(lastIdx + 1, 0, entry)
+        onChange({ lines })
+    }
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '2px', fontSize: '0.7em' }}>
+            {issues.length > 0 && (
+                <div style={{ color: errorCount > 0 ? '#f44' : 'var(--color-alert)', marginBottom: '2px' }}>
+                    {errorCount} ERRORS / {issues.length - errorCount} WARNINGS
+                </div>
+            )}
+            {doc.lines.map((line, i) => {
+                if (line.kind !== 'entry') return null
+                const schema = LflSchema.lookup(line.key)
+                const lineIssues = issuesByLine.get(i) || []
+                const hasError = lineIssues.some(issue => issue.severity === 'error')
+                const marker = hasError ? '#f44' : (lineIssues.length > 0 ? 'var(--color-alert)' : 'transparent')
+                return (
+                    <div
+                        key={i}
+                        ref={(el) => { if (el) rowRefs.current.set(i, el); else rowRefs.current.delete(i) }}
+                        title={[schema?.description, ...lineIssues.map(issue => issue.message)].filter(Boolean).join('\n')}
+                        style={{ display: 'grid', gridTemplateColumns: '1fr 1fr min-content', gap: '2px', borderBottom: '1px solid #111', borderLeft: `2px solid ${marker}` }}
+                    >
+                        <input
+                            value={line.key}
+                            onChange={(e) => updateEntry(i, { key: e.target.value })}
+                            style={{ ...inputStyle, color: '#666' }}
+                            spellCheck={false}
+                        />
+                        <ValueInput
+                            schema={schema}
+                            value={line.value}
+                            onChange={(value) => updateEntry(i, { value })}
+                            listId={`lfl-files-${i}`}
+                            gridFiles={gridFiles}
+                        />
+                        <span
+                            className="clickable"
+                            onClick={() => removeEntry(i)}
+                            title="Remove key"
+                            style={{ color: '#a33', cursor: 'pointer', padding: '0 4px' }}
+                        >
+                            X
+                        </span>
+                    </div>
+                )
+            })}
+            <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '4px' }}>
+                <button onClick={addEntry} style={buttonStyle}>[+ KEY]</button>
+                <button onClick={onSave} disabled={!canSave} style={buttonStyle}>[SAVE CONFIG]</button>
+            </div>
+        </div>
+    )
+}
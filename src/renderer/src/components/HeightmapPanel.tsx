@@ -0,0 +1,107 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { HeightImage, HeightmapIO, RescaleMode } from '../services/HeightmapIO'
+
+export type HeightSource = 'layer5' | 'dph'
+
+interface HeightmapPanelProps {
+    hasDph: boolean
+    onExport: (format: 'png' | 'raw', source: HeightSource) => void
+    onImport: (heights: Uint16Array) => void
+}
+
+const buttonStyle: React.CSSProperties = {
+    background: 'var(--color-primary-dim)',
+    border: '1px solid var(--color-primary)',
+    color: 'var(--color-text)',
+    fontFamily: 'monospace',
+    fontSize: '1em',
+    cursor: 'pointer',
+    padding: '1px 4px'
+}
+
+const selectStyle: React.CSSProperties = {
+    background: '#0a0e0a',
+    border: '1px solid #1a2a1a',
+    color: '#bbb',
+    fontFamily: 'monospace',
+    fontSize: '1em',
+    padding: '1px 3px'
+}
+
+export const HeightmapPanel: React.FC<HeightmapPanelProps> = ({ hasDph, onExport, onImport }) => {
+    const [source, setSource] = useState<HeightSource>('layer5')
+    const [image, setImage] = useState<{ name: string, data: HeightImage } | null>(null)
+    const [mode, setMode] = useState<RescaleMode>('stretch')
+    const [error, setError] = useState<string | null>(null)
+    const fileRef = useRef<HTMLInputElement>(null)
+    const canvasRef = useRef<HTMLCanvasElement>(null)
+
+    const preview = useMemo(() => image ? HeightmapIO.toHeightMap(image.data, mode) : null, [image, mode])
+
+    useEffect(() => {
+        const canvas = canvasRef.current
+        if (!canvas || !preview) return
+        const pixels = new ImageData(256, 256)
+        preview.forEach((raw, i) => {
+            // Stored inverted, drawn bright for high ground
+            const h = 255 - raw
+            pixels.data.set([h, h, h, 255], i * 4)
+        })
+        canvas.getContext('2d')!.putImageData(pixels, 0, 0)
+    }, [preview])
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        e.target.value = ''
+        if (!file) return
+        setError(null)
+        try {
+            const bytes = new Uint8Array(await file.arrayBuffer())
+            const isPng = bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4E && bytes[3] === 0x47
+            setImage({ name: file.name, data: isPng ? await HeightmapIO.decodePNG(bytes) : HeightmapIO.decodeRAW(bytes) })
+        } catch (err) {
+            setImage(null)
+            setError((err as Error).message)
+        }
+    }
+
+    const apply = () => {
+        if (!preview) return
+        onImport(preview)
+        setImage(null)
+    }
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '0.7em', marginTop: '6px' }}>
+            <div style={{ display: 'flex', gap: '3px', alignItems: 'center' }}>
+                <span style={{ color: '#666' }}>HEIGHTMAP:</span>
+                <select value={source} onChange={(e) => setSource(e.target.value as HeightSource)} style={selectStyle}>
+                    <option value="layer5">LAYER 5</option>
+                    {hasDph && <option value="dph">DPH</option>}
+                </select>
+                <button style={buttonStyle} onClick={() => onExport('png', source)}>PNG</button>
+                <button style={buttonStyle} onClick={() => onExport('raw', source)}>RAW</button>
+                <button style={{ ...buttonStyle, marginLeft: 'auto' }} onClick={() => fileRef.current?.click()}>IMPORT...</button>
+                <input ref={fileRef} type="file" accept=".png,.raw,.r16,.r8,.dph" onChange={handleFile} style={{ display: 'none' }} />
+            </div>
+            {error && <div style={{ color: '#f66' }}>{error.toUpperCase()}</div>}
+            {image && (
+                <div style={{ display: 'flex', gap: '6px' }}>
+                    <canvas ref={canvasRef} width={256} height={256} style={{ width: '96px', height: '96px', border: '1px solid var(--color-border)', imageRendering: 'pixelated' }} />
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '3px', minWidth: 0 }}>
+                        <div style={{ color: '#bbb', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{image.name}</div>
+                        <div style={{ color: '#666' }}>{image.data.width}x{image.data.height} {image.data.bitDepth}-BIT</div>
+                        <select value={mode} onChange={(e) => setMode(e.target.value as RescaleMode)} style={selectStyle}>
+                            <option value="stretch">STRETCH TO 0-255</option>
+                            <option value="absolute">KEEP LEVELS</option>
+                        </select>
+                        <div style={{ display: 'flex', gap: '3px', marginTop: 'auto' }}>
+                            <button style={buttonStyle} onClick={apply}>[APPLY]</button>
+                            <button style={buttonStyle} onClick={() => setImage(null)}>[CANCEL]</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,63 @@
+import React, { useEffect, useRef } from 'react'
+import { EditHistory, HistoryState } from '../services/EditHistory'
+
+interface HistoryPanelProps {
+    history: HistoryState
+    onJump: (cursor: number) => void
+}
+
+const buttonStyle: React.CSSProperties = {
+    background: 'var(--color-primary-dim)',
+    border: '1px solid var(--color-primary)',
+    color: 'var(--color-text)',
+    fontFamily: 'monospace',
+    fontSize: '1em',
+    cursor: 'pointer',
+    padding: '1px 6px'
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onJump }) => {
+    const listRef = useRef<HTMLDivElement>(null)
+    const dirty = EditHistory.dirtyTargets(history)
+
+    // Keep the current step in view as edits pile up
+    useEffect(() => {
+        const current = listRef.current?.querySelector('[data-current="true"]')
+        current?.scrollIntoView({ block: 'nearest' })
+    }, [history.cursor, history.entries.length])
+
+    // Row 0 is the level as loaded, row i is the state after entry i - 1
+    const rows = [{ id: 0, label: 'LEVEL LOADED' }, ...history.entries]
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '0.7em' }}>
+            <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+                <button style={buttonStyle} onClick={() => onJump(history.cursor - 1)} disabled={!EditHistory.canUndo(history)} title="Ctrl+Z">[UNDO]</button>
+                <button style={buttonStyle} onClick={() => onJump(history.cursor + 1)} disabled={!EditHistory.canRedo(history)} title="Ctrl+Y">[REDO]</button>
+                <span style={{ marginLeft: 'auto', color: dirty.length > 0 ? 'var(--color-alert)' : '#666' }}>
+                    {dirty.length > 0 ? `UNSAVED: ${dirty.join(', ').toUpperCase()}` : 'ALL SAVED'}
+                </span>
+            </div>
+            <div ref={listRef} style={{ maxHeight: '140px', overflowY: 'auto', border: '1px solid #111' }}>
+                {rows.map((row, i) => {
+                    const current = i === history.cursor
+                    return (
+                        <div
+                            key={row.id}
+                            data-current={current}
+                            onClick={() => onJump(i)}
+                            style={{
+                                padding: '1px 4px',
+                                cursor: 'pointer',
+                                color: current ? 'var(--color-primary)' : (i > history.cursor ? '#444' : '#888'),
+                                background: current ? 'rgba(76, 175, 80, 0.1)' : 'transparent'
+                            }}
+                        >
+                            {current ? '> ' : '  '}{row.label}
+                        </div>
+                    )
+                })}
+            </div>
+        </div>
+    )
+}
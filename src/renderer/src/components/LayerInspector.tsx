@@ -0,0 +1,65 @@
+import React, { useMemo } from 'react'
+import { SlkLayer } from '../services/LevelParser'
+
+interface LayerInspectorProps {
+    layers: SlkLayer[]
+    selected: string | null
+    onSelect: (id: string | null) => void
+}
+
+const selectStyle: React.CSSProperties = {
+    background: '#0a0e0a',
+    border: '1px solid #1a2a1a',
+    color: '#bbb',
+    fontFamily: 'monospace',
+    fontSize: '1em',
+    padding: '1px 3px'
+}
+
+// Same hue ramp as falseColor in TerrainScene
+const LEGEND = 'linear-gradient(to right, hsl(240, 100%, 50%), hsl(180, 100%, 50%), hsl(120, 100%, 50%), hsl(60, 100%, 50%), hsl(0, 100%, 50%))'
+
+export const LayerInspector: React.FC<LayerInspectorProps> = ({ layers, selected, onSelect }) => {
+    const layer = layers.find(l => l.id === selected) || null
+
+    const stats = useMemo(() => {
+        if (!layer) return null
+        let min = Infinity
+        let max = -Infinity
+        const distinct = new Set<number>()
+        for (const v of layer.values) {
+            if (v < min) min = v
+            if (v > max) max = v
+            distinct.add(v)
+        }
+        return { min, max, distinct: distinct.size }
+    }, [layer])
+
+    const known = layers.filter(l => l.known)
+    const unknown = layers.filter(l => !l.known)
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '0.7em' }}>
+            <select value={selected ?? ''} onChange={(e) => onSelect(e.target.value || null)} style={selectStyle} disabled={layers.length === 0}>
+                <option value="">{layers.length === 0 ? 'NO CELL BLOCK IN SLK' : 'NO OVERLAY'}</option>
+                <optgroup label="KNOWN">
+                    {known.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                </optgroup>
+                <optgroup label="UNKNOWN (RAW)">
+                    {unknown.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                </optgroup>
+            </select>
+            {layer && stats && (
+                <>
+                    <div style={{ height: '8px', background: LEGEND }} />
+                    <div style={{ display: 'flex', justifyContent: 'space-between', color: '#888' }}>
+                        <span>{stats.min}</span>
+                        <span>{stats.distinct} DISTINCT</span>
+                        <span>{stats.max}</span>
+                    </div>
+                    {!layer.known && <div style={{ color: '#666' }}>MEANING UNKNOWN, HOVER THE TERRAIN TO READ VALUES</div>}
+                </>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,121 @@
+import React, { useState } from 'react'
+import { LevelObject } from '../services/LevelParser'
+import { ObjectChange, LevelDiffResult } from '../services/LevelDiff'
+
+interface LevelDiffPanelProps {
+    levels: string[]             // Other levels to compare against
+    canCompareSaved: boolean
+    against: string | null       // What the current diff is against, null when not comparing
+    diff: LevelDiffResult | null
+    heatmap: boolean
+    onCompare: (level: string | null) => void   // null compares against the saved files
+    onClear: () => void
+    onHeatmapChange: (show: boolean) => void
+    onLocate: (change: ObjectChange) => void
+}
+
+const buttonStyle: React.CSSProperties = {
+    background: 'var(--color-primary-dim)',
+    border: '1px solid var(--color-primary)',
+    color: 'var(--color-text)',
+    fontFamily: 'monospace',
+    fontSize: '1em',
+    cursor: 'pointer',
+    padding: '1px 4px'
+}
+
+const selectStyle: React.CSSProperties = {
+    background: '#0a0e0a',
+    border: '1px solid #1a2a1a',
+    color: '#bbb',
+    fontFamily: 'monospace',
+    fontSize: '1em',
+    padding: '1px 3px',
+    minWidth: 0,
+    flex: 1
+}
+
+const KIND_STYLES = {
+    added: { mark: '+', color: '#4f4' },
+    removed: { mark: '-', color: '#f44' },
+    moved: { mark: '~', color: 'var(--color-alert)' }
+}
+
+// Select value for the saved files, level names are never empty
+const SAVED = ''
+
+const name = (obj: LevelObject) => obj.type === 'SLOT' ? 'SLOT'
+    : obj.type === 'CITADEL_BASE' ? `CITADEL ${obj.citadel} BASE`
+    : obj.type === 'CITADEL_UPGRADE' ? `CITADEL ${obj.citadel} UPGRADE`
+    : (obj.modelName || obj.type).toUpperCase()
+
+const at = (obj: LevelObject) => `${obj.x.toFixed(1)}, ${obj.z.toFixed(1)}`
+
+export const LevelDiffPanel: React.FC<LevelDiffPanelProps> = ({ levels, canCompareSaved, against, diff, heatmap, onCompare, onClear, onHeatmapChange, onLocate }) => {
+    const [target, setTarget] = useState(canCompareSaved ? SAVED : levels[0] ?? SAVED)
+
+    const header = (
+        <div style={{ display: 'flex', gap: '3px', alignItems: 'center' }}>
+            <select value={target} onChange={(e) => setTarget(e.target.value)} style={selectStyle}>
+                {canCompareSaved && <option value={SAVED}>SAVED VERSION</option>}
+                {levels.map(l => <option key={l} value={l}>{l.replace(/\.lfl$/i, '').toUpperCase()}</option>)}
+            </select>
+            <button style={buttonStyle} disabled={target === SAVED && !canCompareSaved} onClick={() => onCompare(target === SAVED ? null : target)}>COMPARE</button>
+            {against && <button style={buttonStyle} onClick={onClear}>CLEAR</button>}
+        </div>
+    )
+
+    if (!diff || !against) {
+        return <div style={{ fontSize: '0.7em' }}>{header}</div>
+    }
+
+    const count = (kind: ObjectChange['kind']) => diff.objects.filter(c => c.kind === kind).length
+    const same = diff.config.length === 0 && diff.objects.length === 0 && diff.heightCells === 0 && diff.textureCells === 0
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '0.7em' }}>
+            {header}
+            <div style={{ color: '#888' }}>VS {against.toUpperCase()}{same ? ': NO DIFFERENCES' : ''}</div>
+            {!same && (
+                <div style={{ display: 'grid', gridTemplateColumns: 'min-content 1fr', gap: '1px 8px', color: '#bbb' }}>
+                    <span style={{ color: '#888' }}>CONFIG</span>
+                    <span>{diff.config.length} KEYS</span>
+                    <span style={{ color: '#888' }}>OBJECTS</span>
+                    <span>+{count('added')} -{count('removed')} ~{count('moved')}</span>
+                    <span style={{ color: '#888' }}>HEIGHT</span>
+                    <span>{diff.heightCells} CELLS{diff.heightCells > 0 ? ` (MAX ${diff.maxHeightDelta > 0 ? '+' : ''}${diff.maxHeightDelta})` : ''}</span>
+                    <span style={{ color: '#888' }}>TEXTURE</span>
+                    <span>{diff.textureCells} CELLS</span>
+                </div>
+            )}
+            {diff.heatmap && (diff.heightCells > 0 || diff.textureCells > 0) && (
+                <label style={{ color: '#bbb', display: 'flex', alignItems: 'center', gap: '4px' }}>
+                    <input type="checkbox" checked={heatmap} onChange={(e) => onHeatmapChange(e.target.checked)} style={{ margin: 0 }} />
+                    SHOW CHANGED CELLS
+                </label>
+            )}
+            {(diff.config.length > 0 || diff.objects.length > 0) && (
+                <div style={{ maxHeight: '160px', overflowY: 'auto', fontFamily: 'monospace' }}>
+                    {diff.config.map(change => {
+                        const kind = change.before === undefined ? 'added' : change.after === undefined ? 'removed' : 'moved'
+                        return (
+                            <div key={`cfg-${change.key}`} style={{ borderLeft: `2px solid ${KIND_STYLES[kind].color}`, paddingLeft: '4px', marginBottom: '1px', color: '#bbb' }}>
+                                {KIND_STYLES[kind].mark} {change.key}: {kind === 'moved' ? `${change.before} → ${change.after}` : change.after ?? change.before}
+                            </div>
+                        )
+                    })}
+                    {diff.objects.map((change, i) => (
+                        <div
+                            key={i}
+                            className="clickable"
+                            onClick={() => onLocate(change)}
+                            style={{ borderLeft: `2px solid ${KIND_STYLES[change.kind].color}`, paddingLeft: '4px', marginBottom: '1px', color: '#bbb', cursor: 'pointer' }}
+                        >
+                            {KIND_STYLES[change.kind].mark} {name(change.object)} {change.before ? `${at(change.before)} → ` : ''}{at(change.object)}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
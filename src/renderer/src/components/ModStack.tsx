@@ -0,0 +1,64 @@
+import React from 'react'
+
+interface ModStackProps {
+    // Base install first, then mods in rising priority
+    roots: string[]
+    writeLayer: number
+    onAdd: () => void
+    onRemove: (layer: number) => void
+    onMove: (layer: number, direction: -1 | 1) => void
+    onWriteLayerChange: (layer: number) => void
+}
+
+export const layerLabel = (layer: number) => layer === 0 ? 'BASE' : `MOD ${layer}`
+
+const buttonStyle: React.CSSProperties = {
+    background: 'none',
+    border: 'none',
+    color: '#888',
+    fontFamily: 'monospace',
+    fontSize: '1em',
+    cursor: 'pointer',
+    padding: '0 2px'
+}
+
+export const ModStack: React.FC<ModStackProps> = ({ roots, writeLayer, onAdd, onRemove, onMove, onWriteLayerChange }) => {
+    // The base install only takes saves while there is no mod to put them in
+    const writable = (layer: number) => layer > 0 || roots.length === 1
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '2px', fontSize: '0.7em', padding: '6px 8px', fontFamily: 'monospace' }}>
+            {/* Highest priority on top, like the order lookups go in */}
+            {roots.map((root, layer) => ({ root, layer })).reverse().map(({ root, layer }) => (
+                <div key={root} style={{ display: 'flex', alignItems: 'center', gap: '4px' }} title={root}>
+                    <input
+                        type="radio"
+                        checked={writeLayer === layer}
+                        disabled={!writable(layer)}
+                        onChange={() => onWriteLayerChange(layer)}
+                        title={writable(layer) ? 'Save edits here' : 'The base install is read-only while mods are mounted'}
+                        style={{ margin: 0 }}
+                    />
+                    <span style={{ color: layer === 0 ? '#888' : 'var(--color-primary)', minWidth: '5ch' }}>{layerLabel(layer)}</span>
+                    <span style={{ color: '#bbb', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', flex: 1 }}>
+                        {root.split(/[\\/]/).filter(Boolean).pop()}
+                    </span>
+                    {layer > 0 && (
+                        <>
+                            <button style={buttonStyle} disabled={layer === roots.length - 1} onClick={() => onMove(layer, 1)} title="Raise priority">▲</button>
+                            <button style={buttonStyle} disabled={layer === 1} onClick={() => onMove(layer, -1)} title="Lower priority">▼</button>
+                            <button style={{ ...buttonStyle, color: '#a33' }} onClick={() => onRemove(layer)} title="Unmount">X</button>
+                        </>
+                    )}
+                </div>
+            ))}
+            <button
+                onClick={onAdd}
+                disabled={roots.length === 0}
+                style={{ ...buttonStyle, color: 'var(--color-text)', border: '1px solid var(--color-primary)', background: 'var(--color-primary-dim)', marginTop: '4px', padding: '1px 4px' }}
+            >
+                [+ MOD FOLDER]
+            </button>
+        </div>
+    )
+}
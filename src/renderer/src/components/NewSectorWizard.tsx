@@ -0,0 +1,210 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { HeightImage, HeightmapIO, RescaleMode } from '../services/HeightmapIO'
+import { NewSector, NewSectorOptions, SectorTemplate } from '../services/NewSector'
+
+interface NewSectorWizardProps {
+    levels: string[]                // Level files a template can be picked from
+    taken: string[]                 // GRIDS file names already in use
+    onLoadTemplate: (level: string) => Promise<SectorTemplate | null>   // Null when a later pick superseded it
+    onCreate: (options: NewSectorOptions) => Promise<void>
+    onClose: () => void
+}
+
+const buttonStyle: React.CSSProperties = {
+    background: 'var(--color-primary-dim)',
+    border: '1px solid var(--color-primary)',
+    color: 'var(--color-text)',
+    fontFamily: 'monospace',
+    fontSize: '1em',
+    cursor: 'pointer',
+    padding: '1px 6px'
+}
+
+const inputStyle: React.CSSProperties = {
+    background: '#0a0e0a',
+    border: '1px solid #1a2a1a',
+    color: '#bbb',
+    fontFamily: 'monospace',
+    fontSize: '1em',
+    padding: '2px 4px'
+}
+
+const labelStyle: React.CSSProperties = { color: '#888', textAlign: 'right', paddingTop: '3px' }
+
+export const NewSectorWizard: React.FC<NewSectorWizardProps> = ({ levels, taken, onLoadTemplate, onCreate, onClose }) => {
+    const [name, setName] = useState('')
+    const [templateName, setTemplateName] = useState('')
+    const [template, setTemplate] = useState<SectorTemplate | null>(null)
+    const [textures, setTextures] = useState('')
+    const [terrain, setTerrain] = useState<'flat' | 'import'>('flat')
+    const [elevation, setElevation] = useState(128)
+    const [image, setImage] = useState<{ name: string, data: HeightImage } | null>(null)
+    const [rescale, setRescale] = useState<RescaleMode>('stretch')
+    const [script, setScript] = useState<'empty' | 'template'>('empty')
+    const [objective, setObjective] = useState('')
+    const [description, setDescription] = useState('')
+    const [busy, setBusy] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const fileRef = useRef<HTMLInputElement>(null)
+    // The latest template picked, so a slower earlier load doesn't replace it
+    const pickedTemplate = useRef('')
+    const canvasRef = useRef<HTMLCanvasElement>(null)
+
+    const heights = useMemo(() => terrain === 'flat' ? NewSector.flatHeights(elevation) : image ? HeightmapIO.toHeightMap(image.data, rescale) : null,
+        [terrain, elevation, image, rescale])
+
+    useEffect(() => {
+        const canvas = canvasRef.current
+        if (!canvas || !heights) return
+        const pixels = new ImageData(256, 256)
+        heights.forEach((raw, i) => {
+            // Stored inverted, drawn bright for high ground
+            const h = 255 - raw
+            pixels.data.set([h, h, h, 255], i * 4)
+        })
+        canvas.getContext('2d')!.putImageData(pixels, 0, 0)
+    }, [heights])
+
+    // Names are checked case-insensitively since GRIDS lookups are
+    const nameProblem = useMemo(() => {
+        if (!name) return 'ENTER A NAME'
+        if (!NewSector.isValidName(name)) return 'LETTERS, DIGITS, - AND _ ONLY'
+        const clash = Object.values(NewSector.fileNames(name)).find(f => taken.some(t => t.toLowerCase() === f.toLowerCase()))
+        return clash ? `${clash.toUpperCase()} ALREADY EXISTS` : null
+    }, [name, taken])
+
+    const textureList = textures.split('\n').map(t => t.trim()).filter(Boolean)
+
+    const handleTemplate = async (level: string) => {
+        setTemplateName(level)
+        pickedTemplate.current = level
+        setError(null)
+        if (!level) {
+            setTemplate(null)
+            setScript('empty')
+            return
+        }
+        try {
+            const loaded = await onLoadTemplate(level)
+            if (!loaded || pickedTemplate.current !== level) return
+            setTemplate(loaded)
+            if (loaded.slk) setTextures(loaded.slk.textures.join('\n'))
+        } catch (e) {
+            if (pickedTemplate.current !== level) return
+            setTemplate(null)
+            setError((e as Error).message.toUpperCase())
+        }
+    }
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        e.target.value = ''
+        if (!file) return
+        setError(null)
+        try {
+            const bytes = new Uint8Array(await file.arrayBuffer())
+            const isPng = bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4E && bytes[3] === 0x47
+            setImage({ name: file.name, data: isPng ? await HeightmapIO.decodePNG(bytes) : HeightmapIO.decodeRAW(bytes) })
+        } catch (err) {
+            setImage(null)
+            setError((err as Error).message.toUpperCase())
+        }
+    }
+
+    const handleCreate = async () => {
+        if (nameProblem || !heights || textureList.length === 0) return
+        setBusy(true)
+        setError(null)
+        try {
+            await onCreate({ name, template, textures: textureList, heights, script, objective, description })
+        } catch (e) {
+            setError((e as Error).message.toUpperCase())
+            setBusy(false)
+        }
+    }
+
+    const canCreate = !busy && !nameProblem && !!heights && textureList.length > 0
+
+    return (
+        <div style={{ position: 'fixed', inset: 0, background: 'rgba(0, 0, 0, 0.7)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 100 }}>
+            <div style={{ background: '#050805', border: '1px solid var(--color-primary)', padding: '12px', width: '560px', maxHeight: '90vh', overflowY: 'auto', fontFamily: 'monospace', fontSize: '0.8em' }}>
+                <div className="panel-header" style={{ marginBottom: '10px' }}>NEW SECTOR</div>
+                <div style={{ display: 'grid', gridTemplateColumns: 'min-content 1fr', gap: '6px 10px' }}>
+                    <span style={labelStyle}>NAME</span>
+                    <div>
+                        <input value={name} onChange={(e) => setName(e.target.value.trim())} style={{ ...inputStyle, width: '16ch' }} autoFocus />
+                        {nameProblem && name && <span style={{ color: '#f66', marginLeft: '6px' }}>{nameProblem}</span>}
+                    </div>
+
+                    <span style={labelStyle}>TEMPLATE</span>
+                    <select value={templateName} onChange={(e) => handleTemplate(e.target.value)} style={inputStyle}>
+                        <option value="">(NONE, MINIMAL CONFIG)</option>
+                        {levels.map(l => <option key={l} value={l}>{l.replace(/\.lfl$/i, '')}</option>)}
+                    </select>
+
+                    <span style={labelStyle}>TEXTURES</span>
+                    <div>
+                        <textarea
+                            value={textures}
+                            onChange={(e) => setTextures(e.target.value)}
+                            rows={5}
+                            placeholder="One texture name per line, the first covers the whole sector"
+                            style={{ ...inputStyle, width: '100%', boxSizing: 'border-box', resize: 'vertical' }}
+                        />
+                        <div style={{ color: '#666' }}>{textureList.length} TEXTURES</div>
+                    </div>
+
+                    <span style={labelStyle}>TERRAIN</span>
+                    <div style={{ display: 'flex', gap: '8px' }}>
+                        <canvas ref={canvasRef} width={256} height={256} style={{ width: '72px', height: '72px', border: '1px solid var(--color-border)', imageRendering: 'pixelated', flexShrink: 0 }} />
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', minWidth: 0 }}>
+                            <label style={{ color: '#bbb' }}>
+                                <input type="radio" checked={terrain === 'flat'} onChange={() => setTerrain('flat')} /> FLAT AT{' '}
+                                <input
+                                    type="number" min={0} max={255} value={elevation}
+                                    onChange={(e) => setElevation(Math.max(0, Math.min(255, parseInt(e.target.value) || 0)))}
+                                    style={{ ...inputStyle, width: '6ch' }}
+                                />
+                            </label>
+                            <label style={{ color: '#bbb' }}>
+                                <input type="radio" checked={terrain === 'import'} onChange={() => setTerrain('import')} /> IMPORT{' '}
+                                <button style={buttonStyle} onClick={() => { setTerrain('import'); fileRef.current?.click() }}>
+                                    {image ? image.name : 'PNG / RAW...'}
+                                </button>
+                                <input ref={fileRef} type="file" accept=".png,.raw,.r16,.r8,.dph" onChange={handleFile} style={{ display: 'none' }} />
+                            </label>
+                            {terrain === 'import' && image && (
+                                <select value={rescale} onChange={(e) => setRescale(e.target.value as RescaleMode)} style={inputStyle}>
+                                    <option value="stretch">STRETCH TO 0-255</option>
+                                    <option value="absolute">KEEP LEVELS</option>
+                                </select>
+                            )}
+                        </div>
+                    </div>
+
+                    <span style={labelStyle}>SCRIPT</span>
+                    <div style={{ display: 'flex', gap: '12px', color: '#bbb' }}>
+                        <label><input type="radio" checked={script === 'empty'} onChange={() => setScript('empty')} /> EMPTY</label>
+                        <label style={{ color: template?.script ? '#bbb' : '#555' }}>
+                            <input type="radio" checked={script === 'template'} disabled={!template?.script} onChange={() => setScript('template')} /> COPY TEMPLATE
+                        </label>
+                    </div>
+
+                    <span style={labelStyle}>OBJECTIVE</span>
+                    <textarea value={objective} onChange={(e) => setObjective(e.target.value)} rows={2} style={{ ...inputStyle, resize: 'vertical' }} />
+
+                    <span style={labelStyle}>BRIEFING</span>
+                    <textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={3} style={{ ...inputStyle, resize: 'vertical' }} />
+                </div>
+
+                {error && <div style={{ color: '#f66', marginTop: '8px' }}>{error}</div>}
+                <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '6px', marginTop: '12px' }}>
+                    <button style={{ ...buttonStyle, opacity: canCreate ? 1 : 0.4, cursor: canCreate ? 'pointer' : 'default' }} disabled={!canCreate} onClick={handleCreate}>
+                        {busy ? '[DEPLOYING...]' : '[CREATE]'}
+                    </button>
+                    <button style={buttonStyle} onClick={onClose} disabled={busy}>[CANCEL]</button>
+                </div>
+            </div>
+        </div>
+    )
+}
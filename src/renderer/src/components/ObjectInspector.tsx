@@ -0,0 +1,140 @@
+import React, { useMemo } from 'react'
+import { SlkData } from '../services/LevelParser'
+import { ObjectEdits, ObjectId, ObjectPatch } from '../services/ObjectEdits'
+import { GizmoMode } from './TerrainView'
+
+interface ObjectInspectorProps {
+    slk: SlkData
+    selection: ObjectId[]
+    onPatch: (patches: Record<ObjectId, ObjectPatch>) => void
+    onDelete: () => void
+    gizmoMode: GizmoMode
+    onGizmoModeChange: (mode: GizmoMode) => void
+    snapToTerrain: boolean
+    onSnapToTerrainChange: (snap: boolean) => void
+    placingModel: number | null
+    onPlacingModelChange: (modelId: number | null) => void
+    onSave: () => void
+    canSave: boolean
+}
+
+const inputStyle: React.CSSProperties = {
+    background: 'transparent',
+    border: '1px solid #1a2a1a',
+    color: '#bbb',
+    fontFamily: 'monospace',
+    fontSize: '1em',
+    padding: '1px 3px',
+    minWidth: 0
+}
+
+const buttonStyle: React.CSSProperties = {
+    background: 'var(--color-primary-dim)',
+    border: '1px solid var(--color-primary)',
+    color: 'var(--color-text)',
+    fontFamily: 'monospace',
+    fontSize: '1em',
+    cursor: 'pointer',
+    padding: '1px 6px'
+}
+
+const FIELDS: { field: 'x' | 'z' | 'y' | 'rotation', label: string }[] = [
+    { field: 'x', label: 'X' },
+    { field: 'z', label: 'Z' },
+    { field: 'y', label: 'Y' },
+    { field: 'rotation', label: 'ROT' }
+]
+
+export const ObjectInspector: React.FC<ObjectInspectorProps> = ({
+    slk, selection, onPatch, onDelete, gizmoMode, onGizmoModeChange,
+    snapToTerrain, onSnapToTerrainChange, placingModel, onPlacingModelChange, onSave, canSave
+}) => {
+    const selected = useMemo(() => selection
+        .map(id => ({ id, obj: ObjectEdits.getObject(slk, id) }))
+        .filter(s => !!s.obj), [slk, selection])
+
+    const models = useMemo(() => Object.entries(slk.models)
+        .map(([id, name]) => ({ id: parseInt(id), name }))
+        .sort((a, b) => a.name.localeCompare(b.name)), [slk.models])
+
+    // A field shows its value when every selected object agrees on it, and applies to all of them
+    const commonValue = (field: 'x' | 'z' | 'y' | 'rotation'): string => {
+        const values = selected.map(s => s.obj![field] ?? 0)
+        if (values.length === 0 || values.some(v => v !== values[0])) return ''
+        return String(parseFloat(values[0].toFixed(3)))
+    }
+
+    const setField = (field: 'x' | 'z' | 'y' | 'rotation', raw: string) => {
+        const value = parseFloat(raw)
+        if (isNaN(value)) return
+        const patches: Record<ObjectId, ObjectPatch> = {}
+        for (const { id } of selected) patches[id] = { [field]: value }
+        onPatch(patches)
+    }
+
+    // Only model objects carry a height in the file
+    const hasHeight = selected.length > 0 && selected.every(s => s.obj!.type.startsWith('OBJ_'))
+    const label = selected.length === 1
+        ? (selected[0].obj!.modelName || selected[0].obj!.type)
+        : `${selected.length} OBJECTS`
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '0.7em' }}>
+            <div style={{ display: 'flex', gap: '4px' }}>
+                <button style={{ ...buttonStyle, opacity: gizmoMode === 'translate' ? 1 : 0.5 }} onClick={() => onGizmoModeChange('translate')}>[MOVE]</button>
+                <button style={{ ...buttonStyle, opacity: gizmoMode === 'rotate' ? 1 : 0.5 }} onClick={() => onGizmoModeChange('rotate')}>[ROTATE]</button>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '2px', color: '#888', marginLeft: 'auto' }}>
+                    <input type="checkbox" checked={snapToTerrain} onChange={(e) => onSnapToTerrainChange(e.target.checked)} />
+                    SNAP Y
+                </label>
+            </div>
+
+            {selected.length === 0 ? (
+                <div style={{ color: '#666' }}>NO SELECTION (CLICK, SHIFT+CLICK, CTRL+DRAG)</div>
+            ) : (
+                <>
+                    <div style={{ color: '#ff00ff' }}>{label}</div>
+                    <div style={{ display: 'grid', gridTemplateColumns: 'min-content 1fr', gap: '2px 8px', alignItems: 'center' }}>
+                        {FIELDS.filter(f => f.field !== 'y' || hasHeight).map(({ field, label }) => (
+                            <React.Fragment key={field}>
+                                <span style={{ color: '#666', textAlign: 'right' }}>{label}:</span>
+                                <input
+                                    type="number"
+                                    step="any"
+                                    // Re-mount when the value changes elsewhere (gizmo drags) so the field follows it
+                                    key={`${field}-${commonValue(field)}`}
+                                    defaultValue={commonValue(field)}
+                                    placeholder="--"
+                                    onBlur={(e) => setField(field, e.target.value)}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') setField(field, (e.target as HTMLInputElement).value) }}
+                                    style={inputStyle}
+                                />
+                            </React.Fragment>
+                        ))}
+                    </div>
+                    <button style={{ ...buttonStyle, borderColor: '#a33', color: '#f66' }} onClick={onDelete}>[DELETE]</button>
+                </>
+            )}
+
+            <div style={{ display: 'flex', gap: '4px', marginTop: '4px' }}>
+                <select
+                    value={placingModel ?? ''}
+                    onChange={(e) => onPlacingModelChange(e.target.value === '' ? null : parseInt(e.target.value))}
+                    style={{ ...inputStyle, flex: 1, background: '#0a0e0a' }}
+                    disabled={models.length === 0}
+                >
+                    <option value="">{models.length === 0 ? 'NO MODELS IN SLK' : 'PLACE MODEL...'}</option>
+                    {models.map(m => <option key={m.id} value={m.id}>{m.name} ({m.id})</option>)}
+                </select>
+                {placingModel !== null && (
+                    <button style={buttonStyle} onClick={() => onPlacingModelChange(null)}>[DONE]</button>
+                )}
+            </div>
+            {placingModel !== null && <div style={{ color: 'var(--color-alert)' }}>CLICK TERRAIN TO PLACE</div>}
+
+            <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+                <button style={buttonStyle} onClick={onSave} disabled={!canSave}>[SAVE SLK]</button>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { LevelObject, SlkData } from '../services/LevelParser'
+import { ObjectEdits, ObjectId } from '../services/ObjectEdits'
+
+interface ObjectOutlinerProps {
+    slk: SlkData
+    selection: ObjectId[]
+    hidden: Set<string>                     // Group keys whose markers are hidden
+    onSelect: (id: ObjectId, additive: boolean) => void
+    onHiddenChange: (hidden: Set<string>) => void
+}
+
+type Kind = 'slots' | 'citadels' | 'models'
+
+interface OutlinerGroup {
+    key: string
+    label: string
+    kind: Kind
+    items: { id: ObjectId, obj: LevelObject }[]
+}
+
+const buttonStyle: React.CSSProperties = {
+    background: 'var(--color-primary-dim)',
+    border: '1px solid var(--color-primary)',
+    color: 'var(--color-text)',
+    fontFamily: 'monospace',
+    fontSize: '1em',
+    cursor: 'pointer',
+    padding: '0 4px'
+}
+
+const inputStyle: React.CSSProperties = {
+    background: '#0a0e0a',
+    border: '1px solid #1a2a1a',
+    color: '#bbb',
+    fontFamily: 'monospace',
+    fontSize: '1em',
+    padding: '1px 3px',
+    minWidth: 0,
+    flex: 1
+}
+
+const KINDS: { kind: Kind | null, label: string }[] = [
+    { kind: null, label: 'ALL' },
+    { kind: 'slots', label: 'SLOTS' },
+    { kind: 'citadels', label: 'CITADELS' },
+    { kind: 'models', label: 'MODELS' }
+]
+
+// Slots and the two citadel record types get a group each, model objects one per model name
+export const objectGroup = (obj: LevelObject): string => obj.type === 'SLOT' || obj.type.startsWith('CITADEL_')
+    ? obj.type
+    : `MODEL:${(obj.modelName || obj.type).toUpperCase()}`
+
+const groupLabel = (key: string) => key === 'SLOT' ? 'SLOTS'
+    : key === 'CITADEL_BASE' ? 'CITADEL BASES'
+    : key === 'CITADEL_UPGRADE' ? 'CITADEL UPGRADES'
+    : key.slice('MODEL:'.length)
+
+const kindOf = (key: string): Kind => key === 'SLOT' ? 'slots' : key.startsWith('CITADEL_') ? 'citadels' : 'models'
+
+const ORDER = ['SLOT', 'CITADEL_BASE', 'CITADEL_UPGRADE']
+
+const rowLabel = (id: ObjectId, obj: LevelObject) =>
+    `${id.toUpperCase()}${obj.citadel !== undefined ? ` C${obj.citadel}` : ''}  ${obj.x.toFixed(1)}, ${obj.z.toFixed(1)}`
+
+/**
+ * Every object of the level grouped by kind and model, with counts. The filter matches group names,
+ * object ids and citadel numbers. Selection is shared with the tactical view; a hidden group's
+ * markers disappear from the view and the map.
+ */
+export const ObjectOutliner: React.FC<ObjectOutlinerProps> = ({ slk, selection, hidden, onSelect, onHiddenChange }) => {
+    const [query, setQuery] = useState('')
+    const [kind, setKind] = useState<Kind | null>(null)
+    const [expanded, setExpanded] = useState<Set<string>>(new Set())
+    const rowRefs = useRef(new Map<ObjectId, HTMLDivElement>())
+    const selected = useMemo(() => new Set(selection), [selection])
+
+    const groups = useMemo(() => {
+        const byKey = new Map<string, OutlinerGroup>()
+        const add = (obj: LevelObject, id: ObjectId) => {
+            const key = objectGroup(obj)
+            if (!byKey.has(key)) byKey.set(key, { key, label: groupLabel(key), kind: kindOf(key), items: [] })
+            byKey.get(key)!.items.push({ id, obj })
+        }
+        slk.objects.forEach((obj, i) => add(obj, ObjectEdits.objectId('objects', i)))
+        slk.citadels.forEach((obj, i) => add(obj, ObjectEdits.objectId('citadels', i)))
+        const rank = (key: string) => ORDER.includes(key) ? ORDER.indexOf(key) : ORDER.length
+        return [...byKey.values()].sort((a, b) => rank(a.key) - rank(b.key) || a.label.localeCompare(b.label))
+    }, [slk.objects, slk.citadels])
+
+    // A group matching the filter shows all its objects, otherwise only the matching ones
+    const visible = useMemo(() => {
+        const words = query.trim().toUpperCase().split(/\s+/).filter(Boolean)
+        return groups
+            .filter(g => !kind || g.kind === kind)
+            .map(g => {
+                if (words.every(w => g.label.includes(w))) return g
+                return { ...g, items: g.items.filter(({ id, obj }) => words.every(w => g.label.includes(w) || rowLabel(id, obj).includes(w))) }
+            })
+            .filter(g => g.items.length > 0)
+    }, [groups, query, kind])
+
+    // Selecting in the view opens the group of the latest selected object and scrolls it into sight
+    const latest = selection[selection.length - 1]
+    useEffect(() => {
+        if (!latest) return
+        const group = groups.find(g => g.items.some(item => item.id === latest))
+        if (!group) return
+        setExpanded(prev => prev.has(group.key) ? prev : new Set(prev).add(group.key))
+        requestAnimationFrame(() => rowRefs.current.get(latest)?.scrollIntoView({ block: 'nearest' }))
+    }, [latest, groups])
+
+    const toggle = (set: Set<string>, key: string) => {
+        const next = new Set(set)
+        if (next.has(key)) next.delete(key)
+        else next.add(key)
+        return next
+    }
+
+    const searching = query.trim() !== ''
+    const total = slk.objects.length + slk.citadels.length
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '0.7em' }}>
+            <div style={{ display: 'flex', gap: '3px' }}>
+                <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="FILTER" style={inputStyle} />
+                {query && <button style={buttonStyle} onClick={() => setQuery('')}>CLEAR</button>}
+            </div>
+            <div style={{ display: 'flex', gap: '3px', flexWrap: 'wrap' }}>
+                {KINDS.map(k => (
+                    <button
+                        key={k.label}
+                        style={{ ...buttonStyle, opacity: kind === k.kind ? 1 : 0.5, borderColor: kind === k.kind ? 'var(--color-alert)' : 'var(--color-primary)' }}
+                        onClick={() => setKind(k.kind)}
+                    >
+                        {k.label}
+                    </button>
+                ))}
+            </div>
+            <div style={{ maxHeight: '220px', overflowY: 'auto', fontFamily: 'monospace' }}>
+                {visible.length === 0 && <div style={{ color: '#666' }}>{total === 0 ? 'NO OBJECTS' : 'NOTHING MATCHES'}</div>}
+                {visible.map(group => {
+                    // A search opens every group it matches
+                    const open = searching || expanded.has(group.key)
+                    const isHidden = hidden.has(group.key)
+                    const full = groups.find(g => g.key === group.key)!.items.length
+                    const picked = group.items.filter(item => selected.has(item.id)).length
+                    return (
+                        <div key={group.key}>
+                            <div style={{ display: 'flex', alignItems: 'center', gap: '4px', color: isHidden ? '#555' : '#bbb' }}>
+                                <span className="clickable" style={{ cursor: 'pointer', flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} onClick={() => setExpanded(toggle(expanded, group.key))}>
+                                    {open ? '▾' : '▸'} {group.label}
+                                </span>
+                                <span style={{ color: picked > 0 ? 'var(--color-alert)' : '#666' }}>
+                                    {group.items.length !== full ? `${group.items.length}/` : ''}{full}
+                                </span>
+                                <button style={{ ...buttonStyle, opacity: isHidden ? 0.5 : 1 }} onClick={() => onHiddenChange(toggle(hidden, group.key))}>
+                                    {isHidden ? 'SHOW' : 'HIDE'}
+                                </button>
+                            </div>
+                            {open && group.items.map(({ id, obj }) => (
+                                <div
+                                    key={id}
+                                    ref={(el) => { if (el) rowRefs.current.set(id, el); else rowRefs.current.delete(id) }}
+                                    // Hidden objects can't be picked, show the group to select them
+                                    className={isHidden ? undefined : 'clickable'}
+                                    onClick={isHidden ? undefined : (e) => onSelect(id, e.shiftKey)}
+                                    style={{
+                                        paddingLeft: '12px',
+                                        cursor: isHidden ? 'default' : 'pointer',
+                                        whiteSpace: 'nowrap',
+                                        color: selected.has(id) ? '#ff00ff' : isHidden ? '#555' : '#888',
+                                        background: selected.has(id) ? 'rgba(255, 0, 255, 0.08)' : undefined
+                                    }}
+                                >
+                                    {rowLabel(id, obj)}
+                                </div>
+                            ))}
+                        </div>
+                    )
+                })}
+            </div>
+        </div>
+    )
+}
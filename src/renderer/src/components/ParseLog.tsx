@@ -0,0 +1,37 @@
+import React from 'react'
+import { ParseDiagnostic } from '../services/LevelParser'
+
+// A parser diagnostic together with the file it was found in
+export interface ParseLogEntry extends ParseDiagnostic {
+    file: string
+    binary: boolean
+}
+
+interface ParseLogProps {
+    entries: ParseLogEntry[]
+}
+
+const SEVERITY_COLORS = { error: '#f44', warning: 'var(--color-alert)' }
+
+export const ParseLog: React.FC<ParseLogProps> = ({ entries }) => {
+    if (entries.length === 0) {
+        return <div style={{ fontSize: '0.7em', color: '#666' }}>ALL FILES READ CLEANLY</div>
+    }
+
+    return (
+        <div style={{ maxHeight: '160px', overflowY: 'auto', fontSize: '0.7em', fontFamily: 'monospace' }}>
+            {entries.map((entry, i) => (
+                <div
+                    key={i}
+                    style={{ borderLeft: `2px solid ${SEVERITY_COLORS[entry.severity]}`, paddingLeft: '4px', marginBottom: '1px', color: '#bbb' }}
+                >
+                    {/* Binary files are easier to find by offset in a hex editor, text ones by line */}
+                    <span style={{ color: '#888' }}>
+                        {entry.file}:{entry.line}{entry.binary ? ` @0x${entry.offset.toString(16).toUpperCase()}` : ''}
+                    </span>{' '}
+                    {entry.message}
+                </div>
+            ))}
+        </div>
+    )
+}
@@ -0,0 +1,55 @@
+import React, { useState } from 'react'
+import { LintLocation, LintProblem } from '../services/LevelLint'
+
+interface ProblemsPanelProps {
+    problems: LintProblem[]
+    onLocate: (location: LintLocation) => void
+}
+
+const SEVERITY_COLORS = { error: '#f44', warning: 'var(--color-alert)' }
+
+export const ProblemsPanel: React.FC<ProblemsPanelProps> = ({ problems, onLocate }) => {
+    const [showWarnings, setShowWarnings] = useState(true)
+    const errors = problems.filter(p => p.severity === 'error').length
+    const warnings = problems.length - errors
+    const shown = showWarnings ? problems : problems.filter(p => p.severity === 'error')
+
+    if (problems.length === 0) {
+        return <div style={{ fontSize: '0.7em', color: '#666' }}>NO PROBLEMS FOUND</div>
+    }
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '2px', fontSize: '0.7em' }}>
+            <div style={{ display: 'flex', gap: '8px', color: '#888', marginBottom: '2px' }}>
+                <span style={{ color: errors > 0 ? SEVERITY_COLORS.error : '#888' }}>{errors} ERRORS</span>
+                <span
+                    className="clickable"
+                    onClick={() => setShowWarnings(!showWarnings)}
+                    title={showWarnings ? 'Hide warnings' : 'Show warnings'}
+                    style={{ cursor: 'pointer', color: warnings > 0 ? SEVERITY_COLORS.warning : '#888', textDecoration: showWarnings ? 'none' : 'line-through' }}
+                >
+                    {warnings} WARNINGS
+                </span>
+            </div>
+            <div style={{ maxHeight: '160px', overflowY: 'auto' }}>
+                {shown.map((problem, i) => (
+                    <div
+                        key={i}
+                        className={problem.location ? 'clickable' : undefined}
+                        onClick={() => problem.location && onLocate(problem.location)}
+                        title={problem.rule}
+                        style={{
+                            borderLeft: `2px solid ${SEVERITY_COLORS[problem.severity]}`,
+                            paddingLeft: '4px',
+                            marginBottom: '1px',
+                            color: '#bbb',
+                            cursor: problem.location ? 'pointer' : 'default'
+                        }}
+                    >
+                        {problem.message}
+                    </div>
+                ))}
+            </div>
+        </div>
+    )
+}
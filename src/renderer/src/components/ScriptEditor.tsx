@@ -1,18 +1,297 @@
-import React, { useState, useEffect } from 'react'
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react'
+import { HzsDiagnostic, HzsScript, HzsToken, HzsTokenType } from '../services/HzsScript'
+import { LevelObject } from '../services/LevelParser'
+import { ScriptObjectRef, ScriptOutline } from './ScriptOutline'
 
 interface ScriptEditorProps {
     content: string
     onChange: (newContent: string) => void
     onSave: () => void
     fileName: string | null
+    encoding?: string
+    // Level objects and citadels, for finding the models the script names
+    objects?: LevelObject[]
+    // Shows a grid cell in the tactical view
+    onLocate?: (x: number, z: number) => void
+    // Line to select and scroll to; a new key repeats the jump
+    reveal?: { line: number, key: number } | null
 }
 
-export const ScriptEditor: React.FC<ScriptEditorProps> = ({ content, onChange, onSave, fileName }) => {
+const LINE_HEIGHT = 20
+const PADDING = 10
 
-    // Auto-resize textarea logic could go here, but simple flex is safer for now.
+// Shared by the textarea and the highlight layer under it, which have to line up character for character
+const textStyle: React.CSSProperties = {
+    fontFamily: 'Consolas, monospace',
+    fontSize: '14px',
+    lineHeight: `${LINE_HEIGHT}px`,
+    tabSize: 4,
+    whiteSpace: 'pre',
+    padding: `${PADDING}px`,
+    margin: 0,
+    border: 'none'
+}
+
+const TOKEN_COLORS: Record<HzsTokenType, string> = {
+    comment: '#4f7a4f',
+    string: '#e0c070',
+    number: '#ff9f43',
+    keyword: '#7fdbff',
+    identifier: '#00ff00',
+    operator: '#8fbc8f',
+    bracket: '#cccccc',
+    whitespace: 'inherit',
+    newline: 'inherit',
+    unknown: '#ff5555'
+}
+
+const SEVERITY_COLORS = { error: '#ff4444', warning: '#ffaa00' }
+
+const buttonStyle: React.CSSProperties = {
+    background: 'var(--color-primary-dim)',
+    border: '1px solid var(--color-primary)',
+    color: 'var(--color-text)',
+    fontFamily: 'monospace',
+    cursor: 'pointer',
+    padding: '2px 10px'
+}
+
+const inputStyle: React.CSSProperties = {
+    background: '#0a0e0a',
+    border: '1px solid #1a2a1a',
+    color: '#bbb',
+    fontFamily: 'monospace',
+    padding: '2px 4px',
+    width: '160px'
+}
+
+// Offset of the next occurrence at or after `from`, wrapping around; -1 when there is none
+const findFrom = (text: string, query: string, from: number, matchCase: boolean, backwards = false): number => {
+    if (!query) return -1
+    const haystack = matchCase ? text : text.toLowerCase()
+    const needle = matchCase ? query : query.toLowerCase()
+    if (backwards) {
+        const at = from > 0 ? haystack.lastIndexOf(needle, from - 1) : -1
+        return at !== -1 ? at : haystack.lastIndexOf(needle)
+    }
+    const at = haystack.indexOf(needle, from)
+    return at !== -1 ? at : haystack.indexOf(needle)
+}
+
+export const ScriptEditor: React.FC<ScriptEditorProps> = ({ content, onChange, onSave, fileName, encoding, objects = [], onLocate, reveal }) => {
+    const [caret, setCaret] = useState(0)
+    const [findOpen, setFindOpen] = useState<'find' | 'replace' | null>(null)
+    const [query, setQuery] = useState('')
+    const [replacement, setReplacement] = useState('')
+    const [matchCase, setMatchCase] = useState(false)
+    const [outlineOpen, setOutlineOpen] = useState(true)
+    // Last match found from the find bar, marked in the highlight layer while focus stays in the bar
+    const [found, setFound] = useState<[number, number] | null>(null)
+    const textRef = useRef<HTMLTextAreaElement>(null)
+    const layerRef = useRef<HTMLPreElement>(null)
+    const gutterRef = useRef<HTMLDivElement>(null)
+    const findRef = useRef<HTMLInputElement>(null)
+    // Selection to restore once a replace has gone through onChange and come back as content
+    const pendingSelection = useRef<[number, number] | null>(null)
+
+    const parsed = useMemo(() => HzsScript.parse(content), [content])
+    const lineCount = useMemo(() => content.split('\n').length, [content])
+
+    const lineDiagnostics = useMemo(() => {
+        const byLine = new Map<number, HzsDiagnostic[]>()
+        for (const d of parsed.diagnostics) {
+            if (!byLine.has(d.line)) byLine.set(d.line, [])
+            byLine.get(d.line)!.push(d)
+        }
+        return byLine
+    }, [parsed])
+
+    const outline = useMemo(() => HzsScript.outline(content, parsed), [content, parsed])
+
+    const objectRefs = useMemo(() => {
+        const words = new Map<string, HzsToken[]>()
+        for (const t of parsed.tokens) {
+            if (t.type !== 'identifier' && t.type !== 'string') continue
+            const word = (t.type === 'string' ? t.text.replace(/^"|"$/g, '') : t.text).toLowerCase()
+            if (!words.has(word)) words.set(word, [])
+            words.get(word)!.push(t)
+        }
+        const refs: ScriptObjectRef[] = []
+        const seen = new Set<string>()
+        for (const obj of objects) {
+            const name = obj.modelName?.toLowerCase()
+            if (!name || seen.has(name)) continue
+            seen.add(name)
+            const mentions = words.get(name)
+            if (mentions) refs.push({ label: obj.modelName!, line: mentions[0].line, start: mentions[0].start, end: mentions[0].end, count: mentions.length, obj })
+        }
+        return refs.sort((a, b) => a.start - b.start)
+    }, [parsed, objects])
+
+    // The bracket touching the caret (after it first, then before it) and its partner
+    const bracketMatch = useMemo(() => {
+        for (const at of [caret, caret - 1]) {
+            const partner = parsed.pairs.get(at)
+            if (partner !== undefined) return new Set([at, partner])
+        }
+        return null
+    }, [parsed, caret])
+
+    const highlighted = useMemo(() => {
+        const { diagnostics } = parsed
+        let d = 0
+        return parsed.tokens.map(token => {
+            // Diagnostics are sorted by start, so the first one that could still reach this token only moves forward
+            while (d < diagnostics.length && diagnostics[d].end <= token.start) d++
+            const marked = diagnostics.slice(d, d + 4).find(diag => diag.start < token.end && diag.end > token.start)
+            if (token.type === 'whitespace' || token.type === 'newline') return token.text
+            const style: React.CSSProperties = { color: TOKEN_COLORS[token.type] }
+            if (token.type === 'comment') style.fontStyle = 'italic'
+            if (marked) {
+                style.textDecoration = `underline wavy ${SEVERITY_COLORS[marked.severity]}`
+                style.textDecorationSkipInk = 'none'
+            }
+            if (bracketMatch?.has(token.start)) {
+                style.background = 'rgba(0, 255, 0, 0.25)'
+                style.outline = '1px solid rgba(0, 255, 0, 0.6)'
+            }
+            return <span key={token.start} style={style}>{token.text}</span>
+        })
+    }, [parsed, bracketMatch])
+
+    const matchCount = useMemo(() => {
+        if (!query) return 0
+        const haystack = matchCase ? content : content.toLowerCase()
+        const needle = matchCase ? query : query.toLowerCase()
+        let count = 0
+        for (let at = haystack.indexOf(needle); at !== -1; at = haystack.indexOf(needle, at + needle.length)) count++
+        return count
+    }, [content, query, matchCase])
+
+    useLayoutEffect(() => {
+        const pending = pendingSelection.current
+        if (!pending || !textRef.current) return
+        pendingSelection.current = null
+        setFound(pending[1] > pending[0] ? pending : null)
+        select(pending[0], pending[1], false)
+    }, [content])
+
+    useEffect(() => {
+        if (findOpen) findRef.current?.focus()
+    }, [findOpen])
+
+    useEffect(() => {
+        if (!reveal) return
+        let start = 0
+        for (let line = 0; line < reveal.line; line++) {
+            const next = content.indexOf('\n', start)
+            if (next === -1) return
+            start = next + 1
+        }
+        const end = content.indexOf('\n', start)
+        select(start, end === -1 ? content.length : end)
+    }, [reveal?.key])
+
+    const syncScroll = () => {
+        const text = textRef.current
+        if (!text) return
+        if (layerRef.current) layerRef.current.style.transform = `translate(${-text.scrollLeft}px, ${-text.scrollTop}px)`
+        if (gutterRef.current) gutterRef.current.style.transform = `translateY(${-text.scrollTop}px)`
+    }
+
+    // Selects a range in the textarea and scrolls its line into view
+    const select = (start: number, end: number, focus = true) => {
+        const text = textRef.current
+        if (!text) return
+        if (focus) text.focus()
+        text.setSelectionRange(start, end)
+        const line = content.slice(0, start).split('\n').length - 1
+        const top = line * LINE_HEIGHT
+        if (top < text.scrollTop || top + LINE_HEIGHT > text.scrollTop + text.clientHeight - PADDING * 2) {
+            text.scrollTop = Math.max(0, top - text.clientHeight / 2)
+        }
+        setCaret(end)
+        syncScroll()
+    }
+
+    const findNext = (backwards = false) => {
+        const text = textRef.current
+        if (!text) return
+        const at = findFrom(content, query, backwards ? text.selectionStart : text.selectionEnd, matchCase, backwards)
+        setFound(at !== -1 ? [at, at + query.length] : null)
+        if (at !== -1) select(at, at + query.length, false)
+    }
+
+    const selectionMatches = () => {
+        const text = textRef.current
+        if (!text || !query) return false
+        const selected = content.slice(text.selectionStart, text.selectionEnd)
+        return matchCase ? selected === query : selected.toLowerCase() === query.toLowerCase()
+    }
+
+    const replaceOne = () => {
+        const text = textRef.current
+        if (!text) return
+        if (!selectionMatches()) {
+            findNext()
+            return
+        }
+        const start = text.selectionStart
+        const next = content.slice(0, start) + replacement + content.slice(text.selectionEnd)
+        const at = findFrom(next, query, start + replacement.length, matchCase)
+        pendingSelection.current = at !== -1 ? [at, at + query.length] : [start + replacement.length, start + replacement.length]
+        onChange(next)
+    }
+
+    const replaceAll = () => {
+        if (!query || matchCount === 0) return
+        const haystack = matchCase ? content : content.toLowerCase()
+        const needle = matchCase ? query : query.toLowerCase()
+        let result = ''
+        let last = 0
+        for (let at = haystack.indexOf(needle); at !== -1; at = haystack.indexOf(needle, at + needle.length)) {
+            result += content.slice(last, at) + replacement
+            last = at + needle.length
+        }
+        setFound(null)
+        onChange(result + content.slice(last))
+    }
+
+    // Box over the found range in the highlight layer, columns counted with tabs expanded
+    const foundBox = useMemo(() => {
+        if (!found || !findOpen) return null
+        const lineStart = content.lastIndexOf('\n', found[0] - 1) + 1
+        const line = content.slice(0, lineStart).split('\n').length - 1
+        let column = 0
+        for (let i = lineStart; i < found[0]; i++) column = content[i] === '\t' ? (Math.floor(column / 4) + 1) * 4 : column + 1
+        return { top: PADDING + line * LINE_HEIGHT, left: `calc(${PADDING}px + ${column}ch)`, width: `${found[1] - found[0]}ch` }
+    }, [content, found, findOpen])
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if ((e.ctrlKey || e.metaKey) && (e.key === 'f' || e.key === 'h')) {
+            e.preventDefault()
+            const text = textRef.current
+            // Seed the search with a single-line selection, like most editors do
+            if (text && text.selectionEnd > text.selectionStart) {
+                const selected = content.slice(text.selectionStart, text.selectionEnd)
+                if (!selected.includes('\n')) setQuery(selected)
+            }
+            setFindOpen(e.key === 'h' ? 'replace' : 'find')
+            findRef.current?.focus()
+            findRef.current?.select()
+        } else if (e.key === 'Escape' && findOpen) {
+            e.preventDefault()
+            setFindOpen(null)
+            textRef.current?.focus()
+        }
+    }
+
+    const errors = parsed.diagnostics.filter(d => d.severity === 'error').length
+    const warnings = parsed.diagnostics.length - errors
+    const gutterWidth = `${String(lineCount).length + 2}ch`
 
     return (
-        <div className="script-editor-container" style={{
+        <div className="script-editor-container" onKeyDown={handleKeyDown} style={{
             display: 'flex',
             flexDirection: 'column',
             height: '100%',
@@ -30,41 +309,140 @@ export const ScriptEditor: React.FC<ScriptEditorProps> = ({ content, onChange, o
                 backgroundColor: 'rgba(0, 20, 0, 0.5)'
             }}>
                 <span className="file-info" style={{ fontFamily: 'monospace', color: 'var(--color-primary)' }}>
-                    FILE: {fileName || 'NO CONNECTION'}
+                    FILE: {fileName || 'NO CONNECTION'}{encoding && ` [${encoding.toUpperCase()}]`}
                 </span>
-                <button
-                    onClick={onSave}
-                    className="save-btn"
-                    disabled={!fileName}
-                    style={{
-                        background: 'var(--color-primary-dim)',
-                        border: '1px solid var(--color-primary)',
-                        color: 'var(--color-text)',
-                        fontFamily: 'monospace',
-                        cursor: 'pointer',
-                        padding: '2px 10px'
-                    }}
-                >
-                    [TRANSMIT UPDATE]
-                </button>
+                <div style={{ display: 'flex', gap: '6px' }}>
+                    <button onClick={() => setOutlineOpen(!outlineOpen)} style={buttonStyle}>[OUTLINE]</button>
+                    <button onClick={() => setFindOpen(findOpen ? null : 'find')} style={buttonStyle}>[FIND]</button>
+                    <button
+                        onClick={onSave}
+                        className="save-btn"
+                        disabled={!fileName}
+                        style={buttonStyle}
+                    >
+                        [TRANSMIT UPDATE]
+                    </button>
+                </div>
+            </div>
+            {findOpen && (
+                <div style={{ display: 'flex', gap: '4px', alignItems: 'center', flexWrap: 'wrap', fontFamily: 'monospace', fontSize: '12px', padding: '0 5px 5px' }}>
+                    <input
+                        ref={findRef}
+                        value={query}
+                        placeholder="FIND"
+                        onChange={(e) => setQuery(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                                e.preventDefault()
+                                findNext(e.shiftKey)
+                            }
+                        }}
+                        style={inputStyle}
+                        spellCheck={false}
+                    />
+                    <button onClick={() => findNext(true)} style={buttonStyle}>&lt;</button>
+                    <button onClick={() => findNext()} style={buttonStyle}>&gt;</button>
+                    <label style={{ color: '#888', display: 'flex', alignItems: 'center', gap: '2px' }}>
+                        <input type="checkbox" checked={matchCase} onChange={(e) => setMatchCase(e.target.checked)} />
+                        Aa
+                    </label>
+                    <span style={{ color: query && matchCount === 0 ? '#f66' : '#666' }}>
+                        {query ? (matchCount === 0 ? 'NO MATCH' : `${matchCount} MATCH${matchCount === 1 ? '' : 'ES'}`) : ''}
+                    </span>
+                    <button onClick={() => setFindOpen(findOpen === 'replace' ? 'find' : 'replace')} style={{ ...buttonStyle, marginLeft: 'auto' }}>
+                        {findOpen === 'replace' ? '[HIDE REPLACE]' : '[REPLACE...]'}
+                    </button>
+                    {findOpen === 'replace' && (
+                        <div style={{ display: 'flex', gap: '4px', width: '100%' }}>
+                            <input
+                                value={replacement}
+                                placeholder="REPLACE WITH"
+                                onChange={(e) => setReplacement(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') {
+                                        e.preventDefault()
+                                        replaceOne()
+                                    }
+                                }}
+                                style={inputStyle}
+                                spellCheck={false}
+                            />
+                            <button onClick={replaceOne} style={buttonStyle}>REPLACE</button>
+                            <button onClick={replaceAll} style={buttonStyle}>ALL</button>
+                        </div>
+                    )}
+                </div>
+            )}
+            <div style={{ flex: 1, display: 'flex', minHeight: 0, position: 'relative' }}>
+                <div style={{ overflow: 'hidden', flexShrink: 0, width: gutterWidth, borderRight: '1px solid #1a2a1a' }}>
+                    <div ref={gutterRef} style={{ ...textStyle, paddingLeft: 0, paddingRight: 0, color: '#3a5a3a', textAlign: 'right' }}>
+                        {Array.from({ length: lineCount }, (_, i) => {
+                            const marks = lineDiagnostics.get(i)
+                            if (!marks) return <div key={i} style={{ paddingRight: '0.5ch' }}>{i + 1}</div>
+                            const severity = marks.some(m => m.severity === 'error') ? 'error' : 'warning'
+                            return (
+                                <div
+                                    key={i}
+                                    title={marks.map(m => m.message).join('\n')}
+                                    onClick={() => select(marks[0].start, marks[0].end)}
+                                    style={{ paddingRight: '0.5ch', color: SEVERITY_COLORS[severity], background: 'rgba(255, 0, 0, 0.12)', cursor: 'pointer' }}
+                                >
+                                    {i + 1}
+                                </div>
+                            )
+                        })}
+                    </div>
+                </div>
+                <div style={{ flex: 1, position: 'relative', overflow: 'hidden' }}>
+                    <pre ref={layerRef} aria-hidden style={{ ...textStyle, position: 'absolute', top: 0, left: 0, color: '#00ff00', pointerEvents: 'none' }}>
+                        {highlighted}
+                        {/* Keeps a trailing empty line as tall as the textarea's */}
+                        {content.endsWith('\n') && ' '}
+                        {foundBox && (
+                            <span style={{ position: 'absolute', ...foundBox, height: `${LINE_HEIGHT}px`, background: 'rgba(255, 200, 0, 0.3)', outline: '1px solid #ffc800' }} />
+                        )}
+                    </pre>
+                    <textarea
+                        ref={textRef}
+                        value={content}
+                        onChange={(e) => onChange(e.target.value)}
+                        onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+                        onScroll={syncScroll}
+                        wrap="off"
+                        style={{
+                            ...textStyle,
+                            position: 'absolute',
+                            inset: 0,
+                            width: '100%',
+                            height: '100%',
+                            backgroundColor: 'transparent',
+                            color: 'transparent',
+                            caretColor: '#00ff00',
+                            resize: 'none',
+                            outline: 'none',
+                            overflow: 'auto'
+                        }}
+                        spellCheck={false}
+                    />
+                </div>
+                {outlineOpen && (
+                    <div style={{ width: '220px', flexShrink: 0, borderLeft: '1px solid var(--color-primary-dim)' }}>
+                        <ScriptOutline outline={outline} objectRefs={objectRefs} onReveal={select} onLocate={onLocate} />
+                    </div>
+                )}
             </div>
-            <textarea
-                value={content}
-                onChange={(e) => onChange(e.target.value)}
-                style={{
-                    flex: 1,
-                    backgroundColor: 'transparent',
-                    color: '#00ff00',
-                    fontFamily: 'Consolas, monospace',
-                    fontSize: '14px',
-                    border: 'none',
-                    resize: 'none',
-                    outline: 'none',
-                    lineHeight: '1.4',
-                    padding: '10px'
-                }}
-                spellCheck={false}
-            />
+            {parsed.diagnostics.length > 0 && (
+                <div style={{ maxHeight: '84px', overflowY: 'auto', borderTop: '1px solid var(--color-primary-dim)', fontFamily: 'monospace', fontSize: '12px', padding: '3px 5px' }}>
+                    <div style={{ color: '#888', marginBottom: '2px' }}>
+                        {errors} ERROR{errors === 1 ? '' : 'S'}, {warnings} WARNING{warnings === 1 ? '' : 'S'}
+                    </div>
+                    {parsed.diagnostics.map((d, i) => (
+                        <div key={i} className="clickable" onClick={() => select(d.start, d.end)} style={{ color: SEVERITY_COLORS[d.severity], cursor: 'pointer' }}>
+                            L{d.line + 1}: {d.message}
+                        </div>
+                    ))}
+                </div>
+            )}
         </div>
     )
 }
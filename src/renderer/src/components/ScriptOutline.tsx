@@ -0,0 +1,75 @@
+import React from 'react'
+import { HzsOutline, HzsOutlineEntry } from '../services/HzsScript'
+import { LevelObject } from '../services/LevelParser'
+
+// A model named in the script, with the first object in the level that carries that name
+export interface ScriptObjectRef extends HzsOutlineEntry {
+    count: number
+    obj: LevelObject
+}
+
+interface ScriptOutlineProps {
+    outline: HzsOutline
+    objectRefs: ScriptObjectRef[]
+    onReveal: (start: number, end: number) => void
+    onLocate?: (x: number, z: number) => void
+}
+
+const rowStyle: React.CSSProperties = {
+    display: 'flex',
+    gap: '4px',
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis'
+}
+
+const mapButtonStyle: React.CSSProperties = {
+    background: 'none',
+    border: 'none',
+    color: '#ffeb3b',
+    fontFamily: 'monospace',
+    fontSize: '1em',
+    cursor: 'pointer',
+    padding: 0,
+    marginLeft: 'auto'
+}
+
+const Section: React.FC<{ title: string, count: number, children: React.ReactNode }> = ({ title, count, children }) => (
+    <div style={{ marginBottom: '8px' }}>
+        <div style={{ color: '#888', marginBottom: '2px' }}>{title} ({count})</div>
+        {count === 0 ? <div style={{ color: '#444' }}>NONE</div> : children}
+    </div>
+)
+
+export const ScriptOutline: React.FC<ScriptOutlineProps> = ({ outline, objectRefs, onReveal, onLocate }) => {
+    const entry = (e: HzsOutlineEntry, color: string, extra?: React.ReactNode) => (
+        <div key={e.start} className="clickable" style={rowStyle} title={e.label} onClick={() => onReveal(e.start, e.end)}>
+            <span style={{ color: '#3a5a3a' }}>{e.line + 1}</span>
+            <span style={{ color, overflow: 'hidden', textOverflow: 'ellipsis' }}>{e.label}</span>
+            {extra}
+        </div>
+    )
+
+    // Clicking the label jumps to the line, the map button hands the cell to the tactical view
+    const mapButton = (x: number, z: number) => onLocate && (
+        <button style={mapButtonStyle} title={`SHOW ${x}, ${z} ON MAP`} onClick={(ev) => { ev.stopPropagation(); onLocate(x, z) }}>[MAP]</button>
+    )
+
+    return (
+        <div style={{ fontFamily: 'monospace', fontSize: '12px', padding: '5px', overflowY: 'auto', height: '100%', boxSizing: 'border-box' }}>
+            <Section title="BLOCKS" count={outline.blocks.length}>
+                {outline.blocks.map(b => entry(b, '#00ff00'))}
+            </Section>
+            <Section title="TRIGGERS" count={outline.triggers.length}>
+                {outline.triggers.map(t => entry(t, '#7fdbff'))}
+            </Section>
+            <Section title="COORDINATES" count={outline.coordinates.length}>
+                {outline.coordinates.map(c => entry(c, '#ff9f43', mapButton(c.x, c.z)))}
+            </Section>
+            <Section title="OBJECTS" count={objectRefs.length}>
+                {objectRefs.map(r => entry({ ...r, label: `${r.label} x${r.count}` }, '#e0c070', mapButton(r.obj.x, r.obj.z)))}
+            </Section>
+        </div>
+    )
+}
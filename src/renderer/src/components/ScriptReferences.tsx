@@ -0,0 +1,29 @@
+import React from 'react'
+
+interface ScriptReferencesProps {
+    // 0-based script lines with their text
+    lines: { line: number, text: string }[]
+    onOpen: (line: number) => void
+}
+
+export const ScriptReferences: React.FC<ScriptReferencesProps> = ({ lines, onOpen }) => {
+    if (lines.length === 0) {
+        return <div style={{ fontSize: '0.7em', color: '#666' }}>NO SCRIPT LINES MENTION THE SELECTION</div>
+    }
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '2px', fontSize: '0.7em', maxHeight: '120px', overflowY: 'auto' }}>
+            {lines.map(({ line, text }) => (
+                <div
+                    key={line}
+                    className="clickable"
+                    title="OPEN IN COMMS"
+                    onClick={() => onOpen(line)}
+                    style={{ display: 'flex', gap: '6px', cursor: 'pointer', whiteSpace: 'nowrap' }}
+                >
+                    <span style={{ color: '#666', minWidth: '3ch', textAlign: 'right' }}>{line + 1}</span>
+                    <span style={{ color: '#bbb', overflow: 'hidden', textOverflow: 'ellipsis' }}>{text}</span>
+                </div>
+            ))}
+        </div>
+    )
+}
@@ -0,0 +1,357 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import * as THREE from 'three'
+import { TGALoader } from 'three/addons/loaders/TGALoader.js'
+import { LevelObject } from '../services/LevelParser'
+import { GRID_SIZE, ObjectEdits, ObjectId } from '../services/ObjectEdits'
+import { Contours } from '../services/Contours'
+import { getColorForIndex, markerStyle } from '../services/TerrainScene'
+
+interface TacticalMapProps {
+    heightMap: Uint16Array | null
+    textureIndices?: Uint16Array | null
+    textureUrl?: string | null
+    objects: LevelObject[]
+    citadels: LevelObject[]
+    selection: ObjectId[]
+    hidden?: Set<ObjectId>
+    // Called with the grid position clicked, to centre the 3D camera there
+    onFocus: (x: number, z: number) => void
+}
+
+type MapBase = 'minimap' | 'textures' | 'height'
+
+// Screen position of grid (0, 0) and pixels per cell
+type MapView = { x: number, y: number, scale: number }
+
+const buttonStyle: React.CSSProperties = {
+    background: 'var(--color-primary-dim)',
+    border: '1px solid var(--color-primary)',
+    color: 'var(--color-text)',
+    fontFamily: 'monospace',
+    fontSize: '1em',
+    cursor: 'pointer',
+    padding: '1px 4px'
+}
+
+const panelStyle: React.CSSProperties = {
+    position: 'absolute',
+    padding: '4px 8px',
+    background: 'rgba(0, 0, 0, 0.7)',
+    border: '1px solid var(--color-border)',
+    fontFamily: 'monospace',
+    fontSize: '0.8em',
+    color: 'var(--color-text)'
+}
+
+const CONTOUR_INTERVAL = 16
+// Every fourth contour is drawn heavier
+const MAJOR_CONTOUR = CONTOUR_INTERVAL * 4
+const MIN_SCALE = 0.5
+const MAX_SCALE = 64
+// Pointer travel (in pixels) before a press counts as a pan rather than a click
+const DRAG_THRESHOLD = 4
+const SELECTED_COLOR = '#ff00ff'
+
+const shown = (heightMap: Uint16Array | null, i: number) => heightMap ? 255 - (heightMap[i] ?? 0) : 0
+
+// The base image at one pixel per cell, in the colours the 3D view uses
+const cellImage = (colorAt: (i: number) => [number, number, number]): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas')
+    canvas.width = GRID_SIZE
+    canvas.height = GRID_SIZE
+    const pixels = new ImageData(GRID_SIZE, GRID_SIZE)
+    for (let i = 0; i < GRID_SIZE * GRID_SIZE; i++) pixels.data.set([...colorAt(i), 255], i * 4)
+    canvas.getContext('2d')!.putImageData(pixels, 0, 0)
+    return canvas
+}
+
+// The minimap as the 3D view drapes it: turned half a turn against the grid
+const loadMinimap = async (url: string): Promise<HTMLCanvasElement> => {
+    const texture = await new TGALoader().loadAsync(url)
+    const { data, width, height } = texture.image as { data: Uint8Array, width: number, height: number }
+    texture.dispose()
+    const image = document.createElement('canvas')
+    image.width = width
+    image.height = height
+    const pixels = new ImageData(new Uint8ClampedArray(data), width, height)
+    for (let i = 3; i < pixels.data.length; i += 4) pixels.data[i] = 255
+    image.getContext('2d')!.putImageData(pixels, 0, 0)
+
+    const canvas = document.createElement('canvas')
+    canvas.width = GRID_SIZE
+    canvas.height = GRID_SIZE
+    const ctx = canvas.getContext('2d')!
+    ctx.translate(GRID_SIZE, GRID_SIZE)
+    ctx.rotate(Math.PI)
+    ctx.drawImage(image, 0, 0, GRID_SIZE, GRID_SIZE)
+    return canvas
+}
+
+const markerShape = (ctx: CanvasRenderingContext2D, obj: LevelObject, x: number, y: number) => {
+    const { shape } = markerStyle(obj)
+    ctx.beginPath()
+    if (shape === 'BOX') {
+        const half = obj.type === 'CITADEL_BASE' ? 6 : 4
+        ctx.rect(x - half, y - half, half * 2, half * 2)
+    } else if (shape === 'CONE') {
+        ctx.moveTo(x, y - 5)
+        ctx.lineTo(x + 4.5, y + 4)
+        ctx.lineTo(x - 4.5, y + 4)
+        ctx.closePath()
+    } else {
+        ctx.arc(x, y, 4, 0, Math.PI * 2)
+    }
+}
+
+const displayName = (obj: LevelObject) => obj.type === 'SLOT' ? 'SLOT'
+    : obj.type === 'CITADEL_BASE' ? `CITADEL ${obj.citadel ?? ''} BASE`
+    : obj.type === 'CITADEL_UPGRADE' ? `CITADEL ${obj.citadel ?? ''} UPGRADE`
+    : (obj.modelName || obj.type).toUpperCase()
+
+/**
+ * Top-down map of the level: the minimap, texture index colours or heights, contour lines, object
+ * icons and grid coordinates. Wheel zooms around the pointer, dragging pans, a click centres the
+ * 3D camera on that spot.
+ */
+export const TacticalMap: React.FC<TacticalMapProps> = ({ heightMap, textureIndices, textureUrl, objects, citadels, selection, hidden, onFocus }) => {
+    const containerRef = useRef<HTMLDivElement>(null)
+    const canvasRef = useRef<HTMLCanvasElement>(null)
+    const [size, setSize] = useState<{ width: number, height: number } | null>(null)
+    const [view, setView] = useState<MapView | null>(null)
+    const [base, setBase] = useState<MapBase>(textureUrl ? 'minimap' : textureIndices ? 'textures' : 'height')
+    const [showContours, setShowContours] = useState(true)
+    const [showGrid, setShowGrid] = useState(true)
+    const [showMarkers, setShowMarkers] = useState(true)
+    const [minimap, setMinimap] = useState<HTMLCanvasElement | null>(null)
+    const [hover, setHover] = useState<{ x: number, z: number, sx: number, sy: number } | null>(null)
+    const press = useRef<{ sx: number, sy: number, view: MapView, dragging: boolean } | null>(null)
+
+    useEffect(() => {
+        const container = containerRef.current!
+        const observer = new ResizeObserver(() => setSize({ width: container.clientWidth, height: container.clientHeight }))
+        observer.observe(container)
+        return () => observer.disconnect()
+    }, [])
+
+    const fit = () => {
+        if (!size) return
+        const scale = Math.min(size.width, size.height) * 0.95 / GRID_SIZE
+        setView({ x: (size.width - GRID_SIZE * scale) / 2, y: (size.height - GRID_SIZE * scale) / 2, scale })
+    }
+    useEffect(() => { if (size && !view) fit() }, [size])
+
+    useEffect(() => {
+        setMinimap(null)
+        if (!textureUrl) return
+        let cancelled = false
+        loadMinimap(textureUrl)
+            .then(canvas => { if (!cancelled) setMinimap(canvas) })
+            .catch(e => console.warn('Failed to read minimap', e))
+        return () => { cancelled = true }
+    }, [textureUrl])
+
+    const baseImage = useMemo(() => {
+        if (base === 'minimap') return minimap
+        if (base === 'textures' && textureIndices) {
+            const color = new THREE.Color()
+            return cellImage(i => {
+                getColorForIndex(textureIndices[i] ?? 0).getRGB(color, THREE.SRGBColorSpace)
+                return [color.r * 255, color.g * 255, color.b * 255]
+            })
+        }
+        return cellImage(i => {
+            const h = shown(heightMap, i)
+            return [h, h, h]
+        })
+    }, [base, minimap, textureIndices, heightMap])
+
+    const contours = useMemo(() => {
+        if (!heightMap || !showContours) return null
+        const minor = new Path2D()
+        const major = new Path2D()
+        for (const level of Contours.trace(heightMap, CONTOUR_INTERVAL)) {
+            const path = level.height % MAJOR_CONTOUR === 0 ? major : minor
+            const s = level.segments
+            for (let i = 0; i < s.length; i += 4) {
+                path.moveTo(s[i], s[i + 1])
+                path.lineTo(s[i + 2], s[i + 3])
+            }
+        }
+        return { minor, major }
+    }, [heightMap, showContours])
+
+    const markers = useMemo(() => [
+        ...objects.map((obj, i) => ({ obj, id: ObjectEdits.objectId('objects', i) })),
+        ...citadels.map((obj, i) => ({ obj, id: ObjectEdits.objectId('citadels', i) }))
+    ].filter(m => !hidden?.has(m.id)), [objects, citadels, hidden])
+    const selected = useMemo(() => new Set(selection), [selection])
+
+    // Redraws everything; the map is small enough that there is nothing to gain from layering
+    useEffect(() => {
+        const canvas = canvasRef.current
+        if (!canvas || !size || !view) return
+        const dpr = window.devicePixelRatio || 1
+        canvas.width = size.width * dpr
+        canvas.height = size.height * dpr
+        const ctx = canvas.getContext('2d')!
+        ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+        ctx.fillStyle = '#050805'
+        ctx.fillRect(0, 0, size.width, size.height)
+
+        ctx.save()
+        ctx.translate(view.x, view.y)
+        ctx.scale(view.scale, view.scale)
+        if (baseImage) {
+            ctx.imageSmoothingEnabled = false
+            ctx.drawImage(baseImage, 0, 0, GRID_SIZE, GRID_SIZE)
+        }
+        if (contours) {
+            ctx.lineWidth = 1 / view.scale
+            ctx.strokeStyle = 'rgba(255, 235, 59, 0.35)'
+            ctx.stroke(contours.minor)
+            ctx.lineWidth = 1.5 / view.scale
+            ctx.strokeStyle = 'rgba(255, 235, 59, 0.8)'
+            ctx.stroke(contours.major)
+        }
+        ctx.restore()
+
+        if (showGrid) {
+            // Lines every 8 to 64 cells, whichever keeps them at least 48 pixels apart
+            const step = [8, 16, 32, 64].find(s => s * view.scale >= 48) ?? 64
+            ctx.strokeStyle = 'rgba(42, 90, 42, 0.8)'
+            ctx.fillStyle = '#6a6'
+            ctx.lineWidth = 1
+            ctx.font = '10px monospace'
+            for (let g = 0; g <= GRID_SIZE; g += step) {
+                const sx = Math.round(view.x + g * view.scale) + 0.5
+                const sy = Math.round(view.y + g * view.scale) + 0.5
+                ctx.beginPath()
+                ctx.moveTo(sx, view.y)
+                ctx.lineTo(sx, view.y + GRID_SIZE * view.scale)
+                ctx.moveTo(view.x, sy)
+                ctx.lineTo(view.x + GRID_SIZE * view.scale, sy)
+                ctx.stroke()
+                // Labels stay on screen while the map edge is scrolled away
+                ctx.fillText(String(g), sx + 2, Math.max(view.y, 0) + 10)
+                ctx.fillText(String(g), Math.max(view.x, 0) + 2, sy - 2)
+            }
+        }
+
+        if (showMarkers) {
+            ctx.lineWidth = 1.5
+            for (const { obj, id } of markers) {
+                const sx = view.x + obj.x * view.scale
+                const sy = view.y + obj.z * view.scale
+                if (sx < -10 || sy < -10 || sx > size.width + 10 || sy > size.height + 10) continue
+                markerShape(ctx, obj, sx, sy)
+                ctx.fillStyle = 'rgba(0, 0, 0, 0.5)'
+                ctx.fill()
+                ctx.strokeStyle = selected.has(id) ? SELECTED_COLOR : markerStyle(obj).color
+                ctx.stroke()
+            }
+        }
+    }, [size, view, baseImage, contours, showGrid, showMarkers, markers, selected])
+
+    const toGridPoint = (sx: number, sy: number) => view ? { x: (sx - view.x) / view.scale, z: (sy - view.y) / view.scale } : null
+
+    const localPoint = (e: { clientX: number, clientY: number }) => {
+        const rect = containerRef.current!.getBoundingClientRect()
+        return { sx: e.clientX - rect.left, sy: e.clientY - rect.top }
+    }
+
+    // Wheel zoom keeps the cell under the pointer in place; registered natively so it can prevent scrolling
+    useEffect(() => {
+        const canvas = canvasRef.current!
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault()
+            const { sx, sy } = localPoint(e)
+            setView(v => {
+                if (!v) return v
+                const scale = Math.max(MIN_SCALE, Math.min(MAX_SCALE, v.scale * Math.pow(1.2, -e.deltaY / 100)))
+                const k = scale / v.scale
+                return { x: sx - (sx - v.x) * k, y: sy - (sy - v.y) * k, scale }
+            })
+        }
+        canvas.addEventListener('wheel', handleWheel, { passive: false })
+        return () => canvas.removeEventListener('wheel', handleWheel)
+    }, [])
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        if (!view) return
+        const { sx, sy } = localPoint(e)
+        press.current = { sx, sy, view, dragging: false }
+        canvasRef.current!.setPointerCapture(e.pointerId)
+    }
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const { sx, sy } = localPoint(e)
+        const p = toGridPoint(sx, sy)
+        setHover(p && p.x >= 0 && p.z >= 0 && p.x < GRID_SIZE && p.z < GRID_SIZE ? { ...p, sx, sy } : null)
+
+        const start = press.current
+        if (!start) return
+        if (!start.dragging && Math.hypot(sx - start.sx, sy - start.sy) < DRAG_THRESHOLD) return
+        start.dragging = true
+        setView({ ...start.view, x: start.view.x + sx - start.sx, y: start.view.y + sy - start.sy })
+    }
+
+    const handlePointerUp = (e: React.PointerEvent) => {
+        const start = press.current
+        press.current = null
+        if (!start || start.dragging || e.button !== 0) return
+        const p = toGridPoint(start.sx, start.sy)
+        if (p && p.x >= 0 && p.z >= 0 && p.x < GRID_SIZE && p.z < GRID_SIZE) onFocus(p.x, p.z)
+    }
+
+    // Markers within a few pixels of the pointer, nearest first
+    const hoveredMarker = useMemo(() => {
+        if (!hover || !view || !showMarkers) return null
+        let best: { obj: LevelObject, d: number } | null = null
+        for (const { obj } of markers) {
+            const d = Math.hypot(view.x + obj.x * view.scale - hover.sx, view.y + obj.z * view.scale - hover.sy)
+            if (d <= 7 && (!best || d < best.d)) best = { obj, d }
+        }
+        return best?.obj ?? null
+    }, [hover, view, markers, showMarkers])
+
+    const hoverCell = hover ? Math.floor(hover.z) * GRID_SIZE + Math.floor(hover.x) : null
+
+    return (
+        <div ref={containerRef} style={{ width: '100%', height: '100%', position: 'relative', overflow: 'hidden' }}>
+            <canvas
+                ref={canvasRef}
+                style={{ width: '100%', height: '100%', display: 'block', cursor: 'crosshair' }}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerLeave={() => setHover(null)}
+                onContextMenu={(e) => e.preventDefault()}
+            />
+            <div style={{ ...panelStyle, left: 10, top: 10, display: 'flex', gap: '6px', alignItems: 'center' }}>
+                <span style={{ color: '#888' }}>BASE:</span>
+                {(['minimap', 'textures', 'height'] as MapBase[]).map(b => {
+                    const available = b === 'minimap' ? !!textureUrl : b === 'textures' ? !!textureIndices : true
+                    return (
+                        <button
+                            key={b}
+                            disabled={!available}
+                            onClick={() => setBase(b)}
+                            style={{ ...buttonStyle, opacity: !available ? 0.25 : base === b ? 1 : 0.5, borderColor: base === b ? 'var(--color-alert)' : 'var(--color-primary)' }}
+                        >
+                            {b.toUpperCase()}
+                        </button>
+                    )
+                })}
+                <label><input type="checkbox" checked={showContours} onChange={(e) => setShowContours(e.target.checked)} /> CONTOURS</label>
+                <label><input type="checkbox" checked={showGrid} onChange={(e) => setShowGrid(e.target.checked)} /> GRID</label>
+                <label><input type="checkbox" checked={showMarkers} onChange={(e) => setShowMarkers(e.target.checked)} /> OBJECTS</label>
+                <button style={buttonStyle} onClick={fit}>FIT</button>
+            </div>
+            <div style={{ ...panelStyle, left: 10, bottom: 10, pointerEvents: 'none' }}>
+                {hover && hoverCell !== null
+                    ? `X ${hover.x.toFixed(1)}, Z ${hover.z.toFixed(1)} // HEIGHT ${shown(heightMap, hoverCell)}${textureIndices ? ` // TEXTURE ${textureIndices[hoverCell] ?? 0}` : ''}${hoveredMarker ? ` // ${displayName(hoveredMarker)}` : ''}`
+                    : 'CLICK TO CENTRE THE 3D VIEW // DRAG TO PAN // WHEEL TO ZOOM'}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,48 @@
+import React from 'react'
+import { TerrainDisplayMode } from '../services/TerrainSurface'
+
+interface TerrainDisplayPanelProps {
+    mode: TerrainDisplayMode
+    onModeChange: (mode: TerrainDisplayMode) => void
+    exaggeration: number
+    onExaggerationChange: (exaggeration: number) => void
+}
+
+const buttonStyle: React.CSSProperties = {
+    background: 'var(--color-primary-dim)',
+    border: '1px solid var(--color-primary)',
+    color: 'var(--color-text)',
+    fontFamily: 'monospace',
+    fontSize: '1em',
+    cursor: 'pointer',
+    padding: '1px 4px'
+}
+
+const MODES: { mode: TerrainDisplayMode, label: string }[] = [
+    { mode: 'raw', label: 'RAW' },
+    { mode: 'smoothed', label: 'SMOOTHED' },
+    { mode: 'stepped', label: 'STEPPED' }
+]
+
+// How the tactical view draws the heights; display only, the level data is never changed
+export const TerrainDisplayPanel: React.FC<TerrainDisplayPanelProps> = ({ mode, onModeChange, exaggeration, onExaggerationChange }) => (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '0.7em' }}>
+        <div style={{ display: 'flex', gap: '3px', alignItems: 'center' }}>
+            <span style={{ color: '#666' }}>DISPLAY:</span>
+            {MODES.map(m => (
+                <button
+                    key={m.mode}
+                    style={{ ...buttonStyle, opacity: mode === m.mode ? 1 : 0.5, borderColor: mode === m.mode ? 'var(--color-alert)' : 'var(--color-primary)' }}
+                    onClick={() => onModeChange(m.mode)}
+                >
+                    {m.label}
+                </button>
+            ))}
+        </div>
+        <div style={{ display: 'grid', gridTemplateColumns: 'min-content 1fr min-content', gap: '2px 6px', alignItems: 'center' }}>
+            <span style={{ color: '#666', textAlign: 'right' }}>VERTICAL:</span>
+            <input type="range" min={0.25} max={4} step={0.25} value={exaggeration} onChange={(e) => onExaggerationChange(parseFloat(e.target.value))} />
+            <span style={{ color: '#bbb', minWidth: '28px' }}>x{exaggeration}</span>
+        </div>
+    </div>
+)
@@ -1,9 +1,28 @@
-import React, { useRef, useMemo, useState } from 'react'
-import { Canvas, useLoader } from '@react-three/fiber'
-import { OrbitControls, PerspectiveCamera, Html } from '@react-three/drei'
+import React, { useRef, useMemo, useState, useEffect } from 'react'
+import { Canvas, useLoader, useThree, ThreeEvent } from '@react-three/fiber'
+import { OrbitControls, PerspectiveCamera, Html, TransformControls } from '@react-three/drei'
 import * as THREE from 'three'
 import { TGALoader } from 'three/addons/loaders/TGALoader.js'
 import { LevelObject } from '../services/LevelParser'
+import { ObjectEdits, ObjectId, ObjectPatch } from '../services/ObjectEdits'
+import { toWorld, toGrid, markerStyle, markerPosition } from '../services/TerrainScene'
+import { TerrainDisplayMode, TerrainSurfaceMaterial, createTerrainGrid, raycastSurface, surfaceHeight } from '../services/TerrainSurface'
+
+export type GizmoMode = 'translate' | 'rotate'
+
+export type StrokePhase = 'start' | 'move' | 'end'
+
+// Grid cell to centre the camera on; a new key re-centres even when the cell is the same
+export type CameraFocus = { x: number, z: number, key: number }
+
+// Pointer handlers the terrain mesh forwards to whichever tool is active
+type TerrainEvents = {
+    onClick?: (e: ThreeEvent<MouseEvent>) => void
+    onPointerDown?: (e: ThreeEvent<PointerEvent>) => void
+    onPointerMove?: (e: ThreeEvent<PointerEvent>) => void
+    onPointerUp?: (e: ThreeEvent<PointerEvent>) => void
+    onPointerOut?: (e: ThreeEvent<PointerEvent>) => void
+}
 
 interface TerrainViewProps {
     heightMap: Uint16Array | null
@@ -11,177 +30,94 @@ interface TerrainViewProps {
     citadels?: LevelObject[]
     textureUrl?: string | null
     textureIndices?: Uint16Array | null
+    selection?: ObjectId[]
+    onSelect?: (ids: ObjectId[], additive: boolean) => void
+    // Called continuously while the gizmo is dragged, with final set on release
+    onTransform?: (patches: Record<ObjectId, ObjectPatch>, final: boolean) => void
+    gizmoMode?: GizmoMode
+    snapToTerrain?: boolean
+    // When set, clicking the terrain reports the grid position instead of orbiting
+    onPlace?: ((x: number, z: number) => void) | null
+    // When set, left-dragging over the terrain runs a brush stroke instead of orbiting; radius is in grid cells
+    brushRadius?: number | null
+    onBrushStroke?: (x: number, z: number, phase: StrokePhase) => void
+    // Raw SLK layer draped over the terrain in false colour, with its value shown under the cursor
+    overlay?: { name: string, values: Uint8Array | Uint16Array } | null
+    // Cells from this index on are drawn grey over the texture colours, as ones the tool cannot change
+    lockedFrom?: number | null
+    focus?: CameraFocus | null
+    // Objects whose markers are left out, and cannot be box selected
+    hidden?: Set<ObjectId>
+    displayMode?: TerrainDisplayMode
+    // Vertical scale of the terrain and everything standing on it
+    exaggeration?: number
 }
 
+type SurfaceProps = { heightMap: Uint16Array, mode: TerrainDisplayMode, exaggeration: number, events?: TerrainEvents }
 
-const TexturedTerrainMesh: React.FC<{ heightMap: Uint16Array, textureUrl: string }> = ({ heightMap, textureUrl }) => {
+
+const TexturedTerrainMesh: React.FC<SurfaceProps & { textureUrl: string }> = ({ textureUrl, ...surface }) => {
     const texture = useLoader(TGALoader, textureUrl)
 
-    React.useEffect(() => {
-        if (texture) {
-            texture.center.set(0.5, 0.5)
-            texture.rotation = Math.PI
-        }
+    // Set before the surface's effects read the texture transform
+    useMemo(() => {
+        texture.center.set(0.5, 0.5)
+        texture.rotation = Math.PI
     }, [texture])
 
-    return <TerrainMeshFinal heightMap={heightMap} texture={texture} />
+    return <TerrainSurfaceMesh {...surface} texture={texture} />
 }
 
-// Helper to generate a stable random color from an index
-const getColorForIndex = (index: number): THREE.Color => {
-    // Basic hash
-    const r = ((index * 12345) % 255) / 255
-    const g = ((index * 67890) % 255) / 255
-    const b = ((index * 54321) % 255) / 255
-    return new THREE.Color(r, g, b)
-}
-
-// Re-defining TerrainMesh to simply accept texture prop OR indices
-const TerrainMeshFinal: React.FC<{ heightMap: Uint16Array, texture?: THREE.Texture | null, textureIndices?: Uint16Array | null }> = ({ heightMap, texture, textureIndices }) => {
-    const meshRef = useRef<THREE.Mesh>(null)
-
-    const geometry = useMemo(() => {
-        const size = 256
-        const geo = new THREE.PlaneGeometry(2560, 2560, size - 1, size - 1)
-        const posAttribute = geo.attributes.position
-
-        // Apply multi-pass Gaussian smoothing to reduce extreme terrain variations
-        // Using 5x5 kernel with 3 passes for much smoother results
-        let currentHeights = new Float32Array(heightMap.length)
-        for (let i = 0; i < heightMap.length; i++) {
-            currentHeights[i] = heightMap[i]
-        }
-
-        const SMOOTH_PASSES = 3
-        const KERNEL_RADIUS = 2  // 5x5 kernel
-
-        for (let pass = 0; pass < SMOOTH_PASSES; pass++) {
-            const nextHeights = new Float32Array(heightMap.length)
-            for (let row = 0; row < size; row++) {
-                for (let col = 0; col < size; col++) {
-                    let sum = 0
-                    let weightSum = 0
-                    for (let dr = -KERNEL_RADIUS; dr <= KERNEL_RADIUS; dr++) {
-                        for (let dc = -KERNEL_RADIUS; dc <= KERNEL_RADIUS; dc++) {
-                            const r = row + dr
-                            const c = col + dc
-                            if (r >= 0 && r < size && c >= 0 && c < size) {
-                                // Gaussian-like weight: closer = more weight
-                                const dist = Math.sqrt(dr * dr + dc * dc)
-                                const weight = Math.exp(-dist * dist / 4)
-                                sum += currentHeights[r * size + c] * weight
-                                weightSum += weight
-                            }
-                        }
-                    }
-                    nextHeights[row * size + col] = sum / weightSum
-                }
-            }
-            currentHeights = nextHeights
-        }
-        const smoothedHeights = currentHeights
-
-        // Debug: Log heightMap stats
-        console.log('[TerrainMesh] heightMap min:', Math.min(...heightMap), 'max:', Math.max(...heightMap))
-        console.log('[TerrainMesh] Position count:', posAttribute.count, 'heightMap length:', heightMap.length)
-
-        // Prepare Colors
-        const colors: number[] = []
-
-        // PlaneGeometry vertices are laid out in row-major order (size x size)
-        // Direct 1:1 mapping - vertex i = heightMap[i]
-        for (let i = 0; i < posAttribute.count; i++) {
-            const heightIdx = i
-
-            // Get SMOOTHED height from preprocessed array
-            const rawH = heightIdx >= 0 && heightIdx < smoothedHeights.length ? smoothedHeights[heightIdx] : 0
-            // Invert height (255 - h) since data is stored inverted
-            const h = 255 - rawH
-            // Scale height (0-255 -> reasonable world units)
-            posAttribute.setZ(i, h * 1.0)  // Scale: 255 = 255 world units max height
-
-            // Color based on texture indices (terrain type)
-            if (textureIndices) {
-                const idx = heightIdx < textureIndices.length ? textureIndices[heightIdx] : 0
-                const col = getColorForIndex(idx)
-                colors.push(col.r, col.g, col.b)
-            } else {
-                // Fallback: grayscale based on height
-                const normalizedH = h / 255
-                colors.push(normalizedH, normalizedH, normalizedH)
-            }
-        }
-
-        console.log('[TerrainMesh] Heights from SLK applied')
-
-        geo.computeVertexNormals()
-
-        // Always set colors (either from texture indices or height fallback)
-        geo.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3))
-
-        return geo
-    }, [heightMap, textureIndices])
-
-    return (
-        <mesh ref={meshRef} rotation={[-Math.PI / 2, 0, 0]} receiveShadow castShadow>
-            <primitive object={geometry} />
-            <meshStandardMaterial
-                color={texture ? '#ffffff' : (textureIndices ? '#ffffff' : '#4caf50')}
-                vertexColors={!!textureIndices && !texture}
-                wireframe={!texture && !textureIndices}
-                map={texture || null}
-                side={THREE.DoubleSide}
-            />
-        </mesh>
-    )
+// The terrain grid displaced in the shader; edits re-upload the heights and colours, the mesh is never rebuilt
+const TerrainSurfaceMesh: React.FC<SurfaceProps & {
+    texture?: THREE.Texture | null
+    textureIndices?: Uint16Array | null
+    overlay?: Uint8Array | Uint16Array | null
+    lockedFrom?: number | null
+}> = ({ heightMap, mode, exaggeration, events, texture, textureIndices, overlay, lockedFrom }) => {
+    const material = useMemo(() => new TerrainSurfaceMaterial(), [])
+    const stepped = mode === 'stepped'
+    const grid = useMemo(() => createTerrainGrid(stepped), [stepped])
+    useEffect(() => () => material.dispose(), [material])
+    useEffect(() => () => grid.dispose(), [grid])
+
+    useEffect(() => material.setHeights(heightMap), [material, heightMap])
+    useEffect(() => material.setColors(textureIndices, overlay, lockedFrom), [material, textureIndices, overlay, lockedFrom])
+    useEffect(() => material.setMap(texture ?? null), [material, texture])
+    useEffect(() => material.setMode(mode), [material, mode])
+    useEffect(() => material.setExaggeration(exaggeration), [material, exaggeration])
+
+    // The geometry is flat on the CPU, so pointer events test the displayed surface instead
+    const raycast = useMemo(() => raycastSurface(heightMap, mode, exaggeration), [heightMap, mode, exaggeration])
+
+    return <mesh geometry={grid} material={material} raycast={raycast} frustumCulled={false} {...events} />
 }
 
-const ObjectMarkers: React.FC<{ objects: LevelObject[], citadels: LevelObject[], heightMap?: Uint16Array | null }> = ({ objects, citadels, heightMap }) => {
+const SELECTED_COLOR = '#ff00ff'
+
+const ObjectMarkers: React.FC<{
+    objects: LevelObject[]
+    citadels: LevelObject[]
+    heightMap?: Uint16Array | null
+    verticalScale: number
+    selection: ObjectId[]
+    hidden?: Set<ObjectId>
+    onSelect?: (ids: ObjectId[], additive: boolean) => void
+}> = ({ objects, citadels, heightMap, verticalScale, selection, hidden, onSelect }) => {
     const [hovered, setHovered] = useState<{ idx: number, type: string, fullType: string } | null>(null)
+    const selected = useMemo(() => new Set(selection), [selection])
 
-    // Helper to sample terrain height at a given grid position
-    const getTerrainHeight = (gridX: number, gridZ: number): number => {
-        if (!heightMap) return 50  // Default if no heightmap
-        const size = 256
-        // Clamp to grid bounds
-        const col = Math.max(0, Math.min(size - 1, Math.floor(gridX)))
-        const row = Math.max(0, Math.min(size - 1, Math.floor(gridZ)))
-        const idx = row * size + col
-        const rawH = heightMap[idx] || 0
-        // Apply same inversion as terrain mesh (255 - h)
-        return (255 - rawH) * 1.0
+    const handleClick = (e: ThreeEvent<MouseEvent>, id: ObjectId) => {
+        e.stopPropagation()
+        onSelect?.([id], e.shiftKey)
     }
 
     return (
         <group>
             {objects.map((obj, i) => {
-                let color = "#00ff00" // Default (Slots)
-                let scale = [15, 15, 30] as [number, number, number]  // Increased for easier selection
-                let shape = 'CYLINDER'
-
-                if (obj.type === 'SLOT') {
-                    color = "#00ff00"
-                    scale = [15, 15, 30]  // 3x larger
-                } else if (obj.type === 'CITADEL_UPGRADE') {
-                    color = "#ffff00"
-                    scale = [20, 20, 20]  // 2.5x larger
-                    shape = 'BOX'
-                } else if (obj.type.startsWith('OBJ_')) {
-                    color = "#00ffff"
-                    scale = [12, 25, 12]  // 3x larger
-                    shape = 'CONE'
-                }
-
-                // Convert object coords to world position
-                // Object coords are in grid units (0-255), world is -1280 to +1280
-                // Fix flip by NOT inverting coordinates
-                const worldX = (obj.x - 128) * 10
-                const worldZ = (obj.z - 128) * 10
-
-                // Sample terrain height at this position
-                const terrainY = getTerrainHeight(obj.x, obj.z)
-                // Add half the marker height so it sits on top of terrain
-                const yPos = terrainY + scale[2] / 2
+                if (hidden?.has(ObjectEdits.objectId('objects', i))) return null
+                const { color, scale, shape } = markerStyle(obj)
+                const isSelected = selected.has(ObjectEdits.objectId('objects', i))
 
                 // Display name: use modelName if available, otherwise type
                 const displayName = obj.modelName || obj.type
@@ -189,7 +125,8 @@ const ObjectMarkers: React.FC<{ objects: LevelObject[], citadels: LevelObject[],
                 return (
                     <mesh
                         key={`obj-${i}`}
-                        position={[worldX, yPos, worldZ]}
+                        position={markerPosition(obj, heightMap, verticalScale)}
+                        onClick={(e) => handleClick(e, ObjectEdits.objectId('objects', i))}
                         onPointerOver={(e: any) => { e.stopPropagation(); setHovered({ idx: i, type: 'OBJ', fullType: obj.type }) }}
                         onPointerOut={(e: any) => setHovered(null)}
                     >
@@ -198,7 +135,7 @@ const ObjectMarkers: React.FC<{ objects: LevelObject[], citadels: LevelObject[],
                         {shape === 'CONE' && <cylinderGeometry args={[0, scale[0], scale[1], 8]} />}
 
                         <meshBasicMaterial
-                            color={hovered?.idx === i && hovered.type === 'OBJ' ? "#ffffff" : color}
+                            color={hovered?.idx === i && hovered.type === 'OBJ' ? "#ffffff" : (isSelected ? SELECTED_COLOR : color)}
                             wireframe
                         />
                         {hovered?.idx === i && hovered.type === 'OBJ' && (
@@ -214,20 +151,19 @@ const ObjectMarkers: React.FC<{ objects: LevelObject[], citadels: LevelObject[],
             })}
 
             {citadels.map((cit, i) => {
-                // Sample terrain height for citadel too
-                const citTerrainY = getTerrainHeight(cit.x, cit.z)
-                const citWorldX = (cit.x - 128) * 10
-                const citWorldZ = (cit.z - 128) * 10
+                if (hidden?.has(ObjectEdits.objectId('citadels', i))) return null
+                const isSelected = selected.has(ObjectEdits.objectId('citadels', i))
 
                 return (
                     <mesh
                         key={`cit-${i}`}
-                        position={[citWorldX, citTerrainY + 20, citWorldZ]}
+                        position={markerPosition(cit, heightMap, verticalScale)}
+                        onClick={(e) => handleClick(e, ObjectEdits.objectId('citadels', i))}
                         onPointerOver={(e: any) => { e.stopPropagation(); setHovered({ idx: i, type: 'CIT', fullType: 'CITADEL_BASE' }) }}
                         onPointerOut={(e: any) => setHovered(null)}
                     >
                         <boxGeometry args={[40, 40, 40]} />
-                        <meshBasicMaterial color={hovered?.idx === i && hovered.type === 'CIT' ? "#ffffff" : "#ff0000"} wireframe />
+                        <meshBasicMaterial color={hovered?.idx === i && hovered.type === 'CIT' ? "#ffffff" : (isSelected ? SELECTED_COLOR : "#ff0000")} wireframe />
                         {hovered?.idx === i && hovered.type === 'CIT' && (
                             <Html position={[0, 50, 0]} center>
                                 <div style={{ background: 'rgba(50,0,0,0.8)', color: '#f00', padding: '4px', border: '1px solid #f00', fontSize: '10px', whiteSpace: 'nowrap' }}>
@@ -244,31 +180,348 @@ const ObjectMarkers: React.FC<{ objects: LevelObject[], citadels: LevelObject[],
     )
 }
 
+// Move/rotate gizmo on a pivot at the centre of the selection. Rotation turns the whole selection
+// around the pivot and adds to each object's own rotation (assumed to be radians).
+const SelectionGizmo: React.FC<{
+    targets: { id: ObjectId, obj: LevelObject }[]
+    heightMap?: Uint16Array | null
+    verticalScale: number
+    mode: GizmoMode
+    snapToTerrain: boolean
+    onTransform: (patches: Record<ObjectId, ObjectPatch>, final: boolean) => void
+    onGrab: () => void
+}> = ({ targets, heightMap, verticalScale, mode, snapToTerrain, onTransform, onGrab }) => {
+    const pivot = useMemo(() => new THREE.Object3D(), [])
+    const dragStart = useRef<{ targets: { id: ObjectId, obj: LevelObject }[], center: THREE.Vector3 } | null>(null)
+
+    const center = useMemo(() => {
+        const c = new THREE.Vector3()
+        for (const t of targets) c.add(markerPosition(t.obj, heightMap, verticalScale))
+        return c.divideScalar(Math.max(1, targets.length))
+    }, [targets, heightMap, verticalScale])
+
+    // Follow the selection whenever it changes outside of a drag
+    useEffect(() => {
+        if (dragStart.current) return
+        pivot.position.copy(center)
+        pivot.rotation.set(0, 0, 0)
+    }, [center, pivot])
+
+    const computePatches = (): Record<ObjectId, ObjectPatch> => {
+        const start = dragStart.current!
+        const dx = pivot.position.x - start.center.x
+        const dz = pivot.position.z - start.center.z
+        const angle = pivot.rotation.y
+        const cos = Math.cos(angle)
+        const sin = Math.sin(angle)
+        const patches: Record<ObjectId, ObjectPatch> = {}
+        for (const { id, obj } of start.targets) {
+            let wx = toWorld(obj.x) - start.center.x
+            let wz = toWorld(obj.z) - start.center.z
+            if (mode === 'rotate') {
+                [wx, wz] = [wx * cos + wz * sin, -wx * sin + wz * cos]
+            }
+            const x = toGrid(start.center.x + wx + dx)
+            const z = toGrid(start.center.z + wz + dz)
+            const patch: ObjectPatch = { x, z, rotation: (obj.rotation || 0) + (mode === 'rotate' ? angle : 0) }
+            // Only model objects store a height in the SLK
+            if (snapToTerrain && obj.type.startsWith('OBJ_')) patch.y = ObjectEdits.terrainHeight(heightMap, x, z)
+            patches[id] = patch
+        }
+        return patches
+    }
+
+    return (
+        <>
+            <primitive object={pivot} />
+            <TransformControls
+                object={pivot}
+                mode={mode}
+                showX={mode === 'translate'}
+                showY={mode === 'rotate'}
+                showZ={mode === 'translate'}
+                onMouseDown={() => {
+                    onGrab()
+                    dragStart.current = { targets, center: pivot.position.clone() }
+                }}
+                onObjectChange={() => { if (dragStart.current) onTransform(computePatches(), false) }}
+                onMouseUp={() => {
+                    if (!dragStart.current) return
+                    onTransform(computePatches(), true)
+                    dragStart.current = null
+                    pivot.rotation.set(0, 0, 0)
+                }}
+            />
+        </>
+    )
+}
+
+// Keeps a screen projection of world points available to DOM code outside the canvas
+const CameraProjector: React.FC<{ projectRef: React.MutableRefObject<((p: THREE.Vector3) => { x: number, y: number, visible: boolean }) | null> }> = ({ projectRef }) => {
+    const { camera, size } = useThree()
+    useEffect(() => {
+        projectRef.current = (p) => {
+            const v = p.clone().project(camera)
+            return { x: (v.x + 1) / 2 * size.width, y: (1 - v.y) / 2 * size.height, visible: v.z < 1 }
+        }
+    }, [camera, size, projectRef])
+    return null
+}
+
+// Moves the orbit target onto the focused cell, keeping the camera's angle and distance, and marks the spot for a moment
+const FocusBeacon: React.FC<{ focus: CameraFocus, y: number }> = ({ focus, y }) => {
+    const { camera, controls } = useThree()
+    const [visible, setVisible] = useState(true)
+
+    useEffect(() => {
+        // OrbitControls registers itself as the default controls a frame after mounting
+        const orbit = controls as unknown as { target: THREE.Vector3, update: () => void } | null
+        if (!orbit) return
+        const target = new THREE.Vector3(toWorld(focus.x), y, toWorld(focus.z))
+        const offset = camera.position.clone().sub(orbit.target)
+        orbit.target.copy(target)
+        camera.position.copy(target).add(offset)
+        orbit.update()
+    }, [focus.key, controls])
+
+    useEffect(() => {
+        setVisible(true)
+        const timer = setTimeout(() => setVisible(false), 3000)
+        return () => clearTimeout(timer)
+    }, [focus.key])
+
+    if (!visible) return null
+    return (
+        <mesh position={[toWorld(focus.x), y + 100, toWorld(focus.z)]}>
+            <cylinderGeometry args={[2, 2, 200, 8]} />
+            <meshBasicMaterial color="#ffeb3b" transparent opacity={0.7} />
+        </mesh>
+    )
+}
+
 // Loader Component
-const AsyncTerrainLoader: React.FC<{ heightMap: Uint16Array, textureUrl?: string | null, textureIndices?: Uint16Array | null }> = ({ heightMap, textureUrl, textureIndices }) => {
+const AsyncTerrainLoader: React.FC<SurfaceProps & { textureUrl?: string | null, textureIndices?: Uint16Array | null, overlay?: Uint8Array | Uint16Array | null, lockedFrom?: number | null }> = ({ textureUrl, textureIndices, overlay, lockedFrom, ...surface }) => {
+    if (overlay) {
+        return <TerrainSurfaceMesh {...surface} overlay={overlay} />
+    }
     if (textureUrl) {
-        return <TexturedTerrainMesh heightMap={heightMap} textureUrl={textureUrl} />
+        return <TexturedTerrainMesh {...surface} textureUrl={textureUrl} />
     }
-    return <TerrainMeshFinal heightMap={heightMap} textureIndices={textureIndices} />
+    return <TerrainSurfaceMesh {...surface} textureIndices={textureIndices} lockedFrom={lockedFrom} />
 }
 
-export const TerrainView: React.FC<TerrainViewProps> = ({ heightMap, objects = [], citadels = [], textureUrl, textureIndices }) => {
+// Ring following the pointer over the terrain while a brush tool is active
+const BrushCursor: React.FC<{ x: number, z: number, y: number, radius: number }> = ({ x, z, y, radius }) => {
+    return (
+        <mesh position={[toWorld(x), y + 2, toWorld(z)]} rotation={[-Math.PI / 2, 0, 0]}>
+            <ringGeometry args={[Math.max(0, radius * 10 - 3), radius * 10, 48]} />
+            <meshBasicMaterial color="#ff9800" side={THREE.DoubleSide} depthTest={false} transparent opacity={0.8} />
+        </mesh>
+    )
+}
+
+export const TerrainView: React.FC<TerrainViewProps> = ({
+    heightMap, objects = [], citadels = [], textureUrl, textureIndices,
+    selection = [], onSelect, onTransform, gizmoMode = 'translate', snapToTerrain = true, onPlace,
+    brushRadius, onBrushStroke, overlay, lockedFrom, focus, hidden, displayMode = 'raw', exaggeration = 1
+}) => {
+    const containerRef = useRef<HTMLDivElement>(null)
+    const projectRef = useRef<((p: THREE.Vector3) => { x: number, y: number, visible: boolean }) | null>(null)
+    // Ctrl+drag draws a selection rectangle, in container pixels
+    const [box, setBox] = useState<{ x0: number, y0: number, x1: number, y1: number, additive: boolean } | null>(null)
+    // Set when a press lands on the gizmo, so releasing it is not taken as a click on empty space
+    const gizmoGrabbed = useRef(false)
+
+    // Height of the drawn surface in world units, for helpers that sit on it
+    const surfaceY = (x: number, z: number) => heightMap ? surfaceHeight(heightMap, displayMode, x, z) * exaggeration : 50 * exaggeration
+
+    const targets = useMemo(() => selection
+        .map(id => ({ id, obj: id.startsWith('cit-') ? citadels[parseInt(id.slice(4))] : objects[parseInt(id.slice(4))] }))
+        // A hidden object keeps no gizmo, there is no marker for it to sit on
+        .filter(t => !!t.obj && !hidden?.has(t.id)), [selection, objects, citadels, hidden])
+
+    const localPoint = (e: React.PointerEvent) => {
+        const rect = containerRef.current!.getBoundingClientRect()
+        return { x: e.clientX - rect.left, y: e.clientY - rect.top }
+    }
+
+    const handlePointerDownCapture = (e: React.PointerEvent) => {
+        gizmoGrabbed.current = false
+        if (!e.ctrlKey || e.button !== 0 || !onSelect) return
+        // Keep the orbit controls from seeing this drag
+        e.stopPropagation()
+        const p = localPoint(e)
+        setBox({ x0: p.x, y0: p.y, x1: p.x, y1: p.y, additive: e.shiftKey })
+        containerRef.current!.setPointerCapture(e.pointerId)
+    }
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        if (!box) return
+        const p = localPoint(e)
+        setBox({ ...box, x1: p.x, y1: p.y })
+    }
+
+    const handlePointerUp = () => {
+        if (!box) return
+        const project = projectRef.current
+        const [minX, maxX] = [Math.min(box.x0, box.x1), Math.max(box.x0, box.x1)]
+        const [minY, maxY] = [Math.min(box.y0, box.y1), Math.max(box.y0, box.y1)]
+        const inside = (obj: LevelObject) => {
+            const s = project?.(markerPosition(obj, heightMap, exaggeration))
+            return !!s && s.visible && s.x >= minX && s.x <= maxX && s.y >= minY && s.y <= maxY
+        }
+        const ids = [
+            ...objects.map((o, i) => inside(o) ? ObjectEdits.objectId('objects', i) : null),
+            ...citadels.map((c, i) => inside(c) ? ObjectEdits.objectId('citadels', i) : null)
+        ].filter((id): id is ObjectId => id !== null && !hidden?.has(id))
+        onSelect?.(ids, box.additive)
+        setBox(null)
+    }
+
+    // Brush strokes: dabs are coalesced to one per animation frame so edits keep up with the display
+    const [brushAt, setBrushAt] = useState<{ x: number, z: number } | null>(null)
+    const stroking = useRef(false)
+    const pendingDab = useRef<{ x: number, z: number } | null>(null)
+    const dabFrame = useRef<number | null>(null)
+    const brushActive = brushRadius != null && !!onBrushStroke
+
+    const flushDab = () => {
+        dabFrame.current = null
+        if (pendingDab.current && stroking.current) onBrushStroke?.(pendingDab.current.x, pendingDab.current.z, 'move')
+        pendingDab.current = null
+    }
+
+    const endStroke = () => {
+        if (!stroking.current) return
+        if (dabFrame.current !== null) cancelAnimationFrame(dabFrame.current)
+        flushDab()
+        stroking.current = false
+        onBrushStroke?.(brushAt?.x ?? 0, brushAt?.z ?? 0, 'end')
+    }
+
+    let terrainEvents: TerrainEvents | undefined
+    if (onPlace) {
+        terrainEvents = {
+            onClick: (e) => {
+                e.stopPropagation()
+                onPlace(toGrid(e.point.x), toGrid(e.point.z))
+            }
+        }
+    } else if (brushActive) {
+        terrainEvents = {
+            onPointerDown: (e) => {
+                if (e.button !== 0) return
+                e.stopPropagation()
+                stroking.current = true
+                onBrushStroke!(toGrid(e.point.x), toGrid(e.point.z), 'start')
+            },
+            onPointerMove: (e) => {
+                const p = { x: toGrid(e.point.x), z: toGrid(e.point.z) }
+                setBrushAt(p)
+                if (!stroking.current) return
+                pendingDab.current = p
+                if (dabFrame.current === null) dabFrame.current = requestAnimationFrame(flushDab)
+            },
+            onPointerUp: () => endStroke(),
+            onPointerOut: () => setBrushAt(null)
+        }
+    }
+
+    // Layer readout: tracks the cell under the pointer on top of whatever tool is active
+    const [hoverCell, setHoverCell] = useState<{ col: number, row: number } | null>(null)
+    if (overlay) {
+        const tool = terrainEvents
+        terrainEvents = {
+            ...tool,
+            onPointerMove: (e) => {
+                tool?.onPointerMove?.(e)
+                const col = Math.floor(toGrid(e.point.x))
+                const row = Math.floor(toGrid(e.point.z))
+                setHoverCell(col >= 0 && col < 256 && row >= 0 && row < 256 ? { col, row } : null)
+            },
+            onPointerOut: (e) => {
+                tool?.onPointerOut?.(e)
+                setHoverCell(null)
+            }
+        }
+    }
+
+    const hoverValue = overlay && hoverCell ? overlay.values[hoverCell.row * 256 + hoverCell.col] : null
+
+    // Finish a stroke even when the button is released off the terrain
+    useEffect(() => {
+        window.addEventListener('pointerup', endStroke)
+        return () => window.removeEventListener('pointerup', endStroke)
+    })
+
     return (
-        <div style={{ width: '100%', height: '100%' }}>
-            <Canvas shadows>
+        <div
+            ref={containerRef}
+            style={{ width: '100%', height: '100%', position: 'relative', cursor: onPlace || brushActive ? 'crosshair' : undefined }}
+            onPointerDownCapture={handlePointerDownCapture}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+        >
+            <Canvas shadows onPointerMissed={(e) => { if (!e.shiftKey && !gizmoGrabbed.current) onSelect?.([], false) }}>
                 <PerspectiveCamera makeDefault position={[0, 800, 800]} fov={60} far={100000} />
-                <OrbitControls maxDistance={20000} />
+                <OrbitControls
+                    makeDefault
+                    maxDistance={20000}
+                    enabled={!box}
+                    // Left button belongs to the brush while one is active, the camera stays on wheel and right drag
+                    mouseButtons={{ LEFT: brushActive ? -1 as THREE.MOUSE : THREE.MOUSE.ROTATE, MIDDLE: THREE.MOUSE.DOLLY, RIGHT: THREE.MOUSE.PAN }}
+                />
+                <CameraProjector projectRef={projectRef} />
                 <ambientLight intensity={0.8} />
                 <directionalLight position={[100, 200, 100]} intensity={1} castShadow />
 
                 <React.Suspense fallback={null}>
-                    {heightMap && <AsyncTerrainLoader heightMap={heightMap} textureUrl={textureUrl} textureIndices={textureIndices} />}
+                    {heightMap && <AsyncTerrainLoader heightMap={heightMap} textureUrl={textureUrl} textureIndices={textureIndices} overlay={overlay?.values} lockedFrom={lockedFrom} events={terrainEvents} mode={displayMode} exaggeration={exaggeration} />}
                 </React.Suspense>
 
-                {(objects.length > 0 || citadels.length > 0) && <ObjectMarkers objects={objects} citadels={citadels} heightMap={heightMap} />}
+                {focus && <FocusBeacon focus={focus} y={surfaceY(focus.x, focus.z)} />}
+
+                {brushActive && brushAt && <BrushCursor x={brushAt.x} z={brushAt.z} y={surfaceY(brushAt.x, brushAt.z)} radius={brushRadius!} />}
+
+                {(objects.length > 0 || citadels.length > 0) && <ObjectMarkers objects={objects} citadels={citadels} heightMap={heightMap} verticalScale={exaggeration} selection={selection} hidden={hidden} onSelect={onSelect} />}
+
+                {targets.length > 0 && onTransform && (
+                    <SelectionGizmo targets={targets} heightMap={heightMap} verticalScale={exaggeration} mode={gizmoMode} snapToTerrain={snapToTerrain} onTransform={onTransform} onGrab={() => { gizmoGrabbed.current = true }} />
+                )}
 
                 <gridHelper args={[3000, 30, 0x2a5a2a, 0x1a2a1a]} />
             </Canvas>
+            {box && (
+                <div style={{
+                    position: 'absolute',
+                    left: Math.min(box.x0, box.x1),
+                    top: Math.min(box.y0, box.y1),
+                    width: Math.abs(box.x1 - box.x0),
+                    height: Math.abs(box.y1 - box.y0),
+                    border: `1px dashed ${SELECTED_COLOR}`,
+                    background: 'rgba(255, 0, 255, 0.08)',
+                    pointerEvents: 'none'
+                }} />
+            )}
+            {overlay && (
+                <div style={{
+                    position: 'absolute',
+                    left: 10,
+                    bottom: 10,
+                    padding: '4px 8px',
+                    background: 'rgba(0, 0, 0, 0.7)',
+                    border: '1px solid var(--color-border)',
+                    fontFamily: 'monospace',
+                    fontSize: '0.8em',
+                    color: 'var(--color-text)',
+                    pointerEvents: 'none'
+                }}>
+                    {overlay.name}
+                    {hoverValue !== null
+                        ? ` // CELL ${hoverCell!.col},${hoverCell!.row} // VALUE ${hoverValue} (0x${hoverValue.toString(16).toUpperCase().padStart(2, '0')})`
+                        : ' // HOVER TERRAIN FOR VALUES'}
+                </div>
+            )}
         </div>
     )
 }
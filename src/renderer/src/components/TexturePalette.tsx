@@ -0,0 +1,140 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { PaintMode, PaintSettings, TexturePaint } from '../services/TexturePaint'
+import { getColorForIndex } from '../services/TerrainScene'
+import { SLK_FIRST_SHARED_CELL } from '../services/LevelParser'
+
+interface TexturePaletteProps {
+    textures: string[]
+    textureIndices: Uint16Array
+    settings: PaintSettings
+    onChange: (settings: PaintSettings) => void
+    active: boolean
+    onActiveChange: (active: boolean) => void
+    // Resolves a texture name to an image URL, or null when the file is not in the install
+    loadPreview: (name: string) => Promise<string | null>
+}
+
+const buttonStyle: React.CSSProperties = {
+    background: 'var(--color-primary-dim)',
+    border: '1px solid var(--color-primary)',
+    color: 'var(--color-text)',
+    fontFamily: 'monospace',
+    fontSize: '1em',
+    cursor: 'pointer',
+    padding: '1px 4px'
+}
+
+const MODES: { mode: PaintMode, label: string }[] = [
+    { mode: 'brush', label: 'PAINT' },
+    { mode: 'fill', label: 'FILL' },
+    { mode: 'replace', label: 'REPLACE ALL' }
+]
+
+export const TexturePalette: React.FC<TexturePaletteProps> = ({ textures, textureIndices, settings, onChange, active, onActiveChange, loadPreview }) => {
+    const [filter, setFilter] = useState('')
+    const [preview, setPreview] = useState<string | null>(null)
+    const selectedName = textures[settings.index]
+
+    const usage = useMemo(() => TexturePaint.usage(textureIndices), [textureIndices])
+
+    useEffect(() => {
+        let cancelled = false
+        setPreview(null)
+        if (selectedName) {
+            loadPreview(selectedName).then(url => { if (!cancelled) setPreview(url) })
+        }
+        return () => { cancelled = true }
+    }, [selectedName, loadPreview])
+
+    const set = (patch: Partial<PaintSettings>) => onChange({ ...settings, ...patch })
+    const needle = filter.trim().toLowerCase()
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '0.7em' }}>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '3px' }}>
+                {MODES.map(({ mode, label }) => {
+                    const selected = active && settings.mode === mode
+                    return (
+                        <button
+                            key={mode}
+                            style={{ ...buttonStyle, opacity: selected ? 1 : 0.5, borderColor: selected ? 'var(--color-alert)' : 'var(--color-primary)' }}
+                            onClick={() => {
+                                if (selected) {
+                                    onActiveChange(false)
+                                } else {
+                                    set({ mode })
+                                    onActiveChange(true)
+                                }
+                            }}
+                        >
+                            {label}
+                        </button>
+                    )
+                })}
+            </div>
+            {settings.mode === 'brush' && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    <span style={{ color: '#666' }}>RADIUS:</span>
+                    <input type="range" min={0.5} max={16} step={0.5} value={settings.radius} onChange={(e) => set({ radius: parseFloat(e.target.value) })} style={{ flex: 1 }} />
+                    <span style={{ color: '#bbb', minWidth: '28px' }}>{settings.radius}</span>
+                </div>
+            )}
+
+            <div style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+                <div style={{
+                    width: '48px',
+                    height: '48px',
+                    flexShrink: 0,
+                    border: '1px solid var(--color-border)',
+                    background: preview ? `url(${preview}) center / cover` : `#${getColorForIndex(settings.index).getHexString()}`
+                }} />
+                <div style={{ minWidth: 0 }}>
+                    <div style={{ color: '#bbb', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                        #{settings.index} {selectedName || 'OUT OF RANGE'}
+                    </div>
+                    <div style={{ color: '#666' }}>{preview ? 'FROM INSTALL' : 'NO TEXTURE FILE, INDEX COLOUR'}</div>
+                </div>
+            </div>
+
+            <input
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="FILTER TEXTURES..."
+                spellCheck={false}
+                style={{ background: 'transparent', border: '1px solid #1a2a1a', color: '#bbb', fontFamily: 'monospace', fontSize: '1em', padding: '1px 3px' }}
+            />
+            <div style={{ maxHeight: '180px', overflowY: 'auto', border: '1px solid #111' }}>
+                {textures.map((name, i) => {
+                    if (needle && !name.toLowerCase().includes(needle) && String(i) !== needle) return null
+                    const selected = settings.index === i
+                    return (
+                        <div
+                            key={i}
+                            onClick={() => set({ index: i })}
+                            style={{
+                                display: 'flex',
+                                alignItems: 'center',
+                                gap: '4px',
+                                padding: '1px 2px',
+                                cursor: 'pointer',
+                                color: selected ? 'var(--color-primary)' : '#888',
+                                background: selected ? 'rgba(76, 175, 80, 0.1)' : 'transparent'
+                            }}
+                        >
+                            <span style={{ width: '10px', height: '10px', flexShrink: 0, background: `#${getColorForIndex(i).getHexString()}` }} />
+                            <span style={{ color: '#555', minWidth: '28px' }}>{i}</span>
+                            <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{name}</span>
+                            <span style={{ color: '#555' }}>{usage.get(i) || ''}</span>
+                        </div>
+                    )
+                })}
+            </div>
+            {active && <div style={{ color: 'var(--color-alert)' }}>{settings.mode === 'brush' ? 'DRAG' : 'CLICK'} ON TERRAIN TO PAINT</div>}
+            {active && (
+                <div style={{ color: '#666' }}>
+                    GREY CELLS (ROW {Math.floor(SLK_FIRST_SHARED_CELL / 256)} COL {SLK_FIRST_SHARED_CELL % 256} ON) ARE LOCKED: THE FILE STORES THEIR TEXTURE IN THE SAME BYTES AS THE HEIGHTS, SO SAVING WOULD OVERWRITE IT
+                </div>
+            )}
+        </div>
+    )
+}
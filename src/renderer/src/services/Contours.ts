@@ -0,0 +1,74 @@
+import { GRID_SIZE } from './ObjectEdits'
+
+// The lines at one height: x0, z0, x1, z1 per segment, in grid units with cell centres at c + 0.5
+export interface ContourLevel {
+    height: number
+    segments: Float32Array
+}
+
+type Edge = 'top' | 'right' | 'bottom' | 'left'
+
+// Edges each marching-squares case crosses, corners weighted top-left 8, top-right 4, bottom-right 2,
+// bottom-left 1. The saddles (5 and 10) are resolved separately.
+const CASES: Record<number, [Edge, Edge][]> = {
+    1: [['left', 'bottom']],
+    2: [['bottom', 'right']],
+    3: [['left', 'right']],
+    4: [['top', 'right']],
+    6: [['top', 'bottom']],
+    7: [['left', 'top']],
+    8: [['left', 'top']],
+    9: [['top', 'bottom']],
+    11: [['top', 'right']],
+    12: [['left', 'right']],
+    13: [['bottom', 'right']],
+    14: [['left', 'bottom']]
+}
+
+export class Contours {
+
+    /**
+     * Traces lines of equal height every `interval` units with marching squares over the cell centres.
+     * Heights are shown heights (0-255, higher is higher ground), the heightmap is read as stored.
+     */
+    static trace(heightMap: Uint16Array, interval: number): ContourLevel[] {
+        const shown = (c: number, r: number) => 255 - (heightMap[r * GRID_SIZE + c] ?? 0)
+        const levels = new Map<number, number[]>()
+        for (let h = interval; h < 256; h += interval) levels.set(h, [])
+
+        for (let r = 0; r < GRID_SIZE - 1; r++) {
+            for (let c = 0; c < GRID_SIZE - 1; c++) {
+                const tl = shown(c, r)
+                const tr = shown(c + 1, r)
+                const br = shown(c + 1, r + 1)
+                const bl = shown(c, r + 1)
+                const min = Math.min(tl, tr, br, bl)
+                const max = Math.max(tl, tr, br, bl)
+                if (min === max) continue
+
+                // Only the levels some corners reach and others don't (heights are whole numbers)
+                for (let h = Math.ceil((min + 0.5) / interval) * interval; h <= max && h < 256; h += interval) {
+                    const point = (edge: Edge): [number, number] => {
+                        const t = (a: number, b: number) => (h - a) / (b - a)
+                        if (edge === 'top') return [c + 0.5 + t(tl, tr), r + 0.5]
+                        if (edge === 'right') return [c + 1.5, r + 0.5 + t(tr, br)]
+                        if (edge === 'bottom') return [c + 0.5 + t(bl, br), r + 1.5]
+                        return [c + 0.5, r + 0.5 + t(tl, bl)]
+                    }
+                    const key = (tl >= h ? 8 : 0) | (tr >= h ? 4 : 0) | (br >= h ? 2 : 0) | (bl >= h ? 1 : 0)
+                    let edges = CASES[key]
+                    if (key === 5 || key === 10) {
+                        // A saddle: the centre decides which pair of corners the high ground joins
+                        const centreHigh = (tl + tr + br + bl) / 4 >= h
+                        const cutCorners = (key === 5) === centreHigh
+                        edges = cutCorners ? [['left', 'top'], ['bottom', 'right']] : [['top', 'right'], ['left', 'bottom']]
+                    }
+                    const out = levels.get(h)!
+                    for (const [a, b] of edges || []) out.push(...point(a), ...point(b))
+                }
+            }
+        }
+
+        return [...levels].map(([height, segments]) => ({ height, segments: new Float32Array(segments) }))
+    }
+}
@@ -0,0 +1,154 @@
+import { LevelData } from './LevelParser'
+
+// Files an edit can leave unsaved, each saved on its own
+export type EditTarget = 'slk' | 'lfl' | 'cam'
+
+/**
+ * How an edit joins the history:
+ * - 'once'     a complete edit, its own step
+ * - 'begin'    the first part of a continuous edit (brush stroke, gizmo drag), left open
+ * - 'continue' merged into the open step when it has the same label, otherwise begins one
+ */
+export type EditMode = 'once' | 'begin' | 'continue'
+
+export interface HistoryEntry {
+    id: number
+    label: string
+    // The LevelData fields the edit replaced, as they were before and after it
+    before: Partial<LevelData>
+    after: Partial<LevelData>
+    open: boolean
+}
+
+export interface HistoryState {
+    data: LevelData
+    entries: HistoryEntry[]
+    // Number of entries currently applied, entries past it can be redone
+    cursor: number
+    // Cursor each file was last saved at, -1 once that point has been dropped from the history
+    saved: Record<EditTarget, number>
+    nextId: number
+}
+
+// Oldest steps are forgotten past this, a stroke step holds two full heightmaps
+const MAX_ENTRIES = 200
+
+const FIELD_TARGETS: Partial<Record<keyof LevelData, EditTarget>> = {
+    slk: 'slk',
+    heightMap: 'slk',
+    textureIndices: 'slk',
+    lfl: 'lfl',
+    config: 'lfl',
+    cam: 'cam'
+}
+
+const TARGETS: EditTarget[] = ['slk', 'lfl', 'cam']
+
+const touches = (entry: HistoryEntry, target: EditTarget) =>
+    Object.keys(entry.after).some(field => FIELD_TARGETS[field as keyof LevelData] === target)
+
+// Every function returns a new state and leaves the one passed in untouched
+export class EditHistory {
+
+    static start(data: LevelData): HistoryState {
+        return { data, entries: [], cursor: 0, saved: { slk: 0, lfl: 0, cam: 0 }, nextId: 1 }
+    }
+
+    static canUndo(state: HistoryState): boolean {
+        return state.cursor > 0
+    }
+
+    static canRedo(state: HistoryState): boolean {
+        return state.cursor < state.entries.length
+    }
+
+    /**
+     * Applies changes to the level data and records them. Fields are compared by reference, so
+     * edits must replace the objects they change rather than mutate them (as ObjectEdits,
+     * HeightBrush and TexturePaint do). Changes that replace nothing are dropped.
+     */
+    static record(state: HistoryState, label: string, changes: Partial<LevelData>, mode: EditMode = 'once'): HistoryState {
+        const fields = (Object.keys(changes) as (keyof LevelData)[]).filter(f => changes[f] !== state.data[f])
+        if (fields.length === 0) return state
+
+        const before = Object.fromEntries(fields.map(f => [f, state.data[f]])) as Partial<LevelData>
+        const after = Object.fromEntries(fields.map(f => [f, changes[f]])) as Partial<LevelData>
+        const data = { ...state.data, ...after }
+
+        // Saving closes the open step (see markSaved), so a merge never moves a saved point
+        const top = state.cursor === state.entries.length ? state.entries[state.cursor - 1] : undefined
+        if (mode === 'continue' && top?.open && top.label === label) {
+            const merged: HistoryEntry = {
+                ...top,
+                // Fields the step already changed keep their original before values
+                before: { ...before, ...top.before },
+                after: { ...top.after, ...after }
+            }
+            return { ...state, data, entries: [...state.entries.slice(0, -1), merged] }
+        }
+
+        const entry: HistoryEntry = { id: state.nextId, label, before, after, open: mode !== 'once' }
+        let entries = [...state.entries.slice(0, state.cursor).map(e => e.open ? { ...e, open: false } : e), entry]
+        const saved = { ...state.saved }
+
+        // Redo steps are discarded, and a file saved somewhere among them can't be got back to
+        const dropped = state.entries.slice(state.cursor)
+        for (const t of TARGETS) {
+            if (saved[t] > state.cursor) saved[t] = dropped.slice(0, saved[t] - state.cursor).some(e => touches(e, t)) ? -1 : state.cursor
+        }
+
+        let cursor = state.cursor + 1
+        while (entries.length > MAX_ENTRIES) {
+            const [oldest] = entries
+            entries = entries.slice(1)
+            cursor--
+            for (const t of TARGETS) {
+                if (saved[t] > 0) saved[t]--
+                else if (saved[t] === 0 && touches(oldest, t)) saved[t] = -1
+            }
+        }
+
+        return { data, entries, cursor, saved, nextId: state.nextId + 1 }
+    }
+
+    // Closes the open step so the next continuous edit starts a new one
+    static end(state: HistoryState): HistoryState {
+        const top = state.entries[state.entries.length - 1]
+        if (!top?.open) return state
+        return { ...state, entries: [...state.entries.slice(0, -1), { ...top, open: false }] }
+    }
+
+    // Moves to the point where the first `cursor` entries are applied
+    static jump(state: HistoryState, cursor: number): HistoryState {
+        const target = Math.max(0, Math.min(state.entries.length, cursor))
+        let data = state.data
+        for (let i = state.cursor - 1; i >= target; i--) data = { ...data, ...state.entries[i].before }
+        for (let i = state.cursor; i < target; i++) data = { ...data, ...state.entries[i].after }
+        return EditHistory.end({ ...state, data, cursor: target })
+    }
+
+    static undo(state: HistoryState): HistoryState {
+        return EditHistory.jump(state, state.cursor - 1)
+    }
+
+    static redo(state: HistoryState): HistoryState {
+        return EditHistory.jump(state, state.cursor + 1)
+    }
+
+    static markSaved(state: HistoryState, target: EditTarget): HistoryState {
+        return EditHistory.end({ ...state, saved: { ...state.saved, [target]: state.cursor } })
+    }
+
+    // A file is dirty when any step between its last save and the current point touches it
+    static isDirty(state: HistoryState, target: EditTarget): boolean {
+        const saved = state.saved[target]
+        if (saved < 0) return true
+        const from = Math.min(saved, state.cursor)
+        const to = Math.max(saved, state.cursor)
+        return state.entries.slice(from, to).some(e => touches(e, target))
+    }
+
+    static dirtyTargets(state: HistoryState): EditTarget[] {
+        return TARGETS.filter(t => EditHistory.isDirty(state, t))
+    }
+}
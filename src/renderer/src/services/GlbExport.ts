@@ -0,0 +1,149 @@
+import * as THREE from 'three'
+import { GLTFExporter } from 'three/addons/exporters/GLTFExporter.js'
+import { TGALoader } from 'three/addons/loaders/TGALoader.js'
+import { LevelData, LevelObject } from './LevelParser'
+import { GRID_SIZE } from './ObjectEdits'
+import { createMarkerGeometry, getColorForIndex, markerPosition, markerStyle, toGrid } from './TerrainScene'
+import { createTerrainGrid, surfaceHeight, TerrainDisplayMode } from './TerrainSurface'
+
+export class GlbExport {
+
+    /**
+     * Builds the tactical view's scene (terrain plus object markers, without the editing helpers)
+     * and returns it as a binary glTF. The terrain is drawn as the view draws it in `mode`, without
+     * vertical exaggeration. Markers are named after what they stand for and carry the object's grid
+     * coordinates as extras, so they can be swapped for real models in Blender.
+     */
+    static async build(level: LevelData, name: string, mode: TerrainDisplayMode = 'raw'): Promise<Uint8Array> {
+        const scene = new THREE.Scene()
+        scene.name = name
+
+        if (level.heightMap) {
+            const terrain = new THREE.Mesh(
+                GlbExport.terrainGeometry(level.heightMap, mode, level.textureIndices),
+                await GlbExport.terrainMaterial(level)
+            )
+            terrain.name = 'Terrain'
+            scene.add(terrain)
+        }
+
+        const materials = new Map<string, THREE.Material>()
+        const material = (color: string) => {
+            if (!materials.has(color)) materials.set(color, new THREE.MeshStandardMaterial({ color, name: `Marker ${color}` }))
+            return materials.get(color)!
+        }
+        const marker = (obj: LevelObject, nodeName: string) => {
+            const mesh = new THREE.Mesh(createMarkerGeometry(obj), material(markerStyle(obj).color))
+            mesh.name = nodeName
+            mesh.position.copy(markerPosition(obj, level.heightMap))
+            mesh.userData = { type: obj.type, modelName: obj.modelName, x: obj.x, y: obj.y, z: obj.z, rotation: obj.rotation, citadel: obj.citadel }
+            return mesh
+        }
+
+        const groups = { slots: new THREE.Group(), citadels: new THREE.Group(), objects: new THREE.Group() }
+        groups.slots.name = 'Slots'
+        groups.citadels.name = 'Citadels'
+        groups.objects.name = 'Objects'
+
+        level.slk.objects.forEach((obj, i) => {
+            if (obj.type === 'SLOT') groups.slots.add(marker(obj, `SLOT_${i}`))
+            else if (obj.type === 'CITADEL_UPGRADE') groups.citadels.add(marker(obj, `CITADEL_${obj.citadel}_UPGRADE_${i}`))
+            else groups.objects.add(marker(obj, `${obj.modelName || obj.type}_${i}`))
+        })
+        level.slk.citadels.forEach((obj, i) => groups.citadels.add(marker(obj, `CITADEL_${obj.citadel ?? i}_BASE`)))
+
+        for (const group of Object.values(groups)) {
+            if (group.children.length > 0) scene.add(group)
+        }
+
+        const result = await new GLTFExporter().parseAsync(scene, { binary: true })
+        return new Uint8Array(result as ArrayBuffer)
+    }
+
+    /**
+     * The view's terrain grid with the shader's displacement applied on the CPU, UVs for the minimap
+     * and texture index colours per vertex. Stepped tiles are split into separate faces, dropping the
+     * zero-height walls between level tiles, so each face keeps a flat normal.
+     */
+    private static terrainGeometry(heightMap: Uint16Array, mode: TerrainDisplayMode, textureIndices?: Uint16Array | null): THREE.BufferGeometry {
+        let geo = createTerrainGrid(mode === 'stepped')
+        const position = geo.attributes.position as THREE.BufferAttribute
+        const cell = geo.attributes.cell as THREE.BufferAttribute
+        const uv = new Float32Array(position.count * 2)
+        const color = textureIndices ? new Float32Array(position.count * 3) : null
+        for (let i = 0; i < position.count; i++) {
+            const col = cell.getX(i)
+            const row = cell.getY(i)
+            position.setY(i, surfaceHeight(heightMap, mode, col, row))
+            // As the shader samples the minimap
+            uv.set([toGrid(position.getX(i)) / (GRID_SIZE - 1), 1 - toGrid(position.getZ(i)) / (GRID_SIZE - 1)], i * 2)
+            if (color) {
+                const c = getColorForIndex(textureIndices![row * GRID_SIZE + col] ?? 0)
+                color.set([c.r, c.g, c.b], i * 3)
+            }
+        }
+        geo.setAttribute('uv', new THREE.BufferAttribute(uv, 2))
+        if (color) geo.setAttribute('color', new THREE.BufferAttribute(color, 3))
+        geo.deleteAttribute('cell')
+
+        if (mode === 'stepped') {
+            const index = geo.index!.array
+            const kept: number[] = []
+            const a = new THREE.Vector3()
+            const b = new THREE.Vector3()
+            const c = new THREE.Vector3()
+            for (let t = 0; t < index.length; t += 3) {
+                a.fromBufferAttribute(position, index[t])
+                b.fromBufferAttribute(position, index[t + 1])
+                c.fromBufferAttribute(position, index[t + 2])
+                if (new THREE.Triangle(a, b, c).getArea() > 0) kept.push(index[t], index[t + 1], index[t + 2])
+            }
+            geo.setIndex(kept)
+            const faces = geo.toNonIndexed()
+            geo.dispose()
+            geo = faces
+        }
+        geo.computeVertexNormals()
+        return geo
+    }
+
+    // The minimap when the level has one, otherwise the texture index colours baked into the vertices
+    private static async terrainMaterial(level: LevelData): Promise<THREE.Material> {
+        if (level.textureUrl) {
+            try {
+                const map = GlbExport.minimapTexture(await new TGALoader().loadAsync(level.textureUrl))
+                return new THREE.MeshStandardMaterial({ map, side: THREE.DoubleSide, name: 'Minimap' })
+            } catch (e) {
+                console.warn('Failed to load minimap for export', e)
+            }
+        }
+        if (level.textureIndices) {
+            return new THREE.MeshStandardMaterial({ vertexColors: true, side: THREE.DoubleSide, name: 'Texture Indices' })
+        }
+        return new THREE.MeshStandardMaterial({ color: '#4caf50', side: THREE.DoubleSide, name: 'Terrain' })
+    }
+
+    /**
+     * The view shows the TGA as loaded (a data texture, rows bottom-up) turned by 180 degrees.
+     * glTF images are top-down, which leaves a horizontal mirror to apply, drawn into a canvas.
+     */
+    private static minimapTexture(tga: THREE.DataTexture): THREE.Texture {
+        const { data, width, height } = tga.image as { data: Uint8Array, width: number, height: number }
+        const source = document.createElement('canvas')
+        source.width = width
+        source.height = height
+        source.getContext('2d')!.putImageData(new ImageData(new Uint8ClampedArray(data), width, height), 0, 0)
+
+        const canvas = document.createElement('canvas')
+        canvas.width = width
+        canvas.height = height
+        const ctx = canvas.getContext('2d')!
+        ctx.translate(width, 0)
+        ctx.scale(-1, 1)
+        ctx.drawImage(source, 0, 0)
+
+        const texture = new THREE.CanvasTexture(canvas)
+        texture.colorSpace = THREE.SRGBColorSpace
+        return texture
+    }
+}
@@ -0,0 +1,90 @@
+import { GRID_SIZE } from './ObjectEdits'
+
+export type BrushTool = 'raise' | 'lower' | 'smooth' | 'flatten' | 'noise' | 'set'
+
+export interface BrushSettings {
+    tool: BrushTool
+    radius: number    // In grid cells
+    strength: number  // 0-1, how much one dab changes the terrain
+    falloff: number   // 0 = hard edge, 1 = fades out from the centre
+    height: number    // Target for the set tool, in display units (0 low - 255 high)
+}
+
+// Height units a full-strength raise/lower/noise dab moves the centre cell by
+const MAX_STEP = 8
+
+export class HeightBrush {
+
+    static weight(dist: number, radius: number, falloff: number): number {
+        if (dist >= radius) return 0
+        const inner = radius * (1 - falloff)
+        if (dist <= inner) return 1
+        const t = (dist - inner) / (radius - inner)
+        // Smoothstep from the hard core out to the rim
+        return 1 - t * t * (3 - 2 * t)
+    }
+
+    /**
+     * Returns a copy of the heights with one dab applied at grid position (cx, cz). Stored heights
+     * are inverted (255 - h, see TerrainSurface.surfaceHeight), so tools work in display units and convert back.
+     * flattenHeight is the display height the flatten tool pulls towards, usually sampled when the
+     * stroke started.
+     */
+    static apply(heights: Uint16Array, cx: number, cz: number, settings: BrushSettings, flattenHeight?: number): Uint16Array {
+        const next = heights.slice()
+        const { tool, radius, strength, falloff } = settings
+        const minRow = Math.max(0, Math.floor(cz - radius))
+        const maxRow = Math.min(GRID_SIZE - 1, Math.ceil(cz + radius))
+        const minCol = Math.max(0, Math.floor(cx - radius))
+        const maxCol = Math.min(GRID_SIZE - 1, Math.ceil(cx + radius))
+        const display = (idx: number) => 255 - heights[idx]
+
+        for (let row = minRow; row <= maxRow; row++) {
+            for (let col = minCol; col <= maxCol; col++) {
+                const w = HeightBrush.weight(Math.hypot(col - cx, row - cz), radius, falloff) * strength
+                if (w <= 0) continue
+                const idx = row * GRID_SIZE + col
+                const h = display(idx)
+                let target = h
+
+                switch (tool) {
+                    case 'raise':
+                        target = h + MAX_STEP * w
+                        break
+                    case 'lower':
+                        target = h - MAX_STEP * w
+                        break
+                    case 'noise':
+                        target = h + (Math.random() * 2 - 1) * MAX_STEP * w
+                        break
+                    case 'smooth': {
+                        let sum = 0
+                        let count = 0
+                        for (let dr = -1; dr <= 1; dr++) {
+                            for (let dc = -1; dc <= 1; dc++) {
+                                const r = row + dr
+                                const c = col + dc
+                                if (r >= 0 && r < GRID_SIZE && c >= 0 && c < GRID_SIZE) {
+                                    sum += display(r * GRID_SIZE + c)
+                                    count++
+                                }
+                            }
+                        }
+                        target = h + (sum / count - h) * w
+                        break
+                    }
+                    case 'flatten':
+                        target = h + ((flattenHeight ?? h) - h) * w
+                        break
+                    case 'set':
+                        target = h + (settings.height - h) * w
+                        break
+                }
+
+                next[idx] = 255 - Math.max(0, Math.min(255, Math.round(target)))
+            }
+        }
+
+        return next
+    }
+}
@@ -0,0 +1,243 @@
+import { GRID_SIZE } from './ObjectEdits'
+
+// A grayscale image read from an external tool, values as stored in the file
+export interface HeightImage {
+    width: number
+    height: number
+    bitDepth: 8 | 16
+    values: Uint16Array
+}
+
+// How imported values map onto the game's 0-255 height range
+export type RescaleMode = 'stretch' | 'absolute'
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+        let c = n
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1
+        table[n] = c >>> 0
+    }
+    return table
+})()
+
+const crc32 = (bytes: Uint8Array): number => {
+    let c = 0xFFFFFFFF
+    for (const b of bytes) c = CRC_TABLE[(c ^ b) & 0xFF] ^ (c >>> 8)
+    return (c ^ 0xFFFFFFFF) >>> 0
+}
+
+// PNG image data is a zlib stream, which is what the 'deflate' compression format produces
+const runStream = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+    const out = new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(stream))
+    return new Uint8Array(await out.arrayBuffer())
+}
+
+export class HeightmapIO {
+
+    /**
+     * Heights for export as 16-bit values, bright meaning high. Layer 5 heights are stored inverted
+     * (see TerrainSurface.surfaceHeight), so they are flipped back and spread over the full 16-bit range.
+     */
+    static exportValues(heightMap: Uint16Array): Uint16Array {
+        return heightMap.map(raw => (255 - Math.min(255, raw)) * 257)
+    }
+
+    // 256x256 little-endian 16-bit samples, the same layout parseDPH reads
+    static encodeRAW(values: Uint16Array): Uint8Array {
+        const bytes = new Uint8Array(values.length * 2)
+        const view = new DataView(bytes.buffer)
+        values.forEach((v, i) => view.setUint16(i * 2, v, true))
+        return bytes
+    }
+
+    // Square files only: two bytes per sample are read as 16-bit little-endian, one byte as 8-bit
+    static decodeRAW(bytes: Uint8Array): HeightImage {
+        const side16 = Math.sqrt(bytes.length / 2)
+        if (Number.isInteger(side16)) {
+            const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+            const values = new Uint16Array(side16 * side16)
+            for (let i = 0; i < values.length; i++) values[i] = view.getUint16(i * 2, true)
+            return { width: side16, height: side16, bitDepth: 16, values }
+        }
+        const side8 = Math.sqrt(bytes.length)
+        if (Number.isInteger(side8)) {
+            return { width: side8, height: side8, bitDepth: 8, values: Uint16Array.from(bytes) }
+        }
+        throw new Error(`RAW file of ${bytes.length} bytes is not a square 8 or 16-bit heightmap`)
+    }
+
+    // Grayscale 16-bit PNG, rows top to bottom in the same order as the height grid
+    static async encodePNG(values: Uint16Array, width: number, height: number): Promise<Uint8Array> {
+        const rows = new Uint8Array(height * (1 + width * 2))
+        for (let y = 0; y < height; y++) {
+            const start = y * (1 + width * 2)
+            rows[start] = 0  // No filter
+            for (let x = 0; x < width; x++) {
+                const v = values[y * width + x]
+                rows[start + 1 + x * 2] = v >> 8
+                rows[start + 2 + x * 2] = v & 0xFF
+            }
+        }
+
+        const ihdr = new Uint8Array(13)
+        const ihdrView = new DataView(ihdr.buffer)
+        ihdrView.setUint32(0, width)
+        ihdrView.setUint32(4, height)
+        ihdr[8] = 16  // Bit depth
+        ihdr[9] = 0   // Grayscale
+
+        const chunks = [
+            HeightmapIO.pngChunk('IHDR', ihdr),
+            HeightmapIO.pngChunk('IDAT', await runStream(rows, new CompressionStream('deflate'))),
+            HeightmapIO.pngChunk('IEND', new Uint8Array(0))
+        ]
+        const png = new Uint8Array(PNG_SIGNATURE.length + chunks.reduce((n, c) => n + c.length, 0))
+        png.set(PNG_SIGNATURE, 0)
+        let offset = PNG_SIGNATURE.length
+        for (const chunk of chunks) {
+            png.set(chunk, offset)
+            offset += chunk.length
+        }
+        return png
+    }
+
+    /**
+     * Reads non-interlaced grayscale, gray+alpha, RGB and RGBA PNGs at 8 or 16 bits. Colour images
+     * use their first (red) channel, which is where heightmap tools put the value.
+     */
+    static async decodePNG(bytes: Uint8Array): Promise<HeightImage> {
+        if (!PNG_SIGNATURE.every((b, i) => bytes[i] === b)) throw new Error('Not a PNG file')
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+        let width = 0
+        let height = 0
+        let bitDepth = 0
+        let colorType = 0
+        const idat: Uint8Array[] = []
+        for (let offset = PNG_SIGNATURE.length; offset + 8 <= bytes.length;) {
+            const length = view.getUint32(offset)
+            const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8))
+            const data = bytes.subarray(offset + 8, offset + 8 + length)
+            if (type === 'IHDR') {
+                width = view.getUint32(offset + 8)
+                height = view.getUint32(offset + 12)
+                bitDepth = data[8]
+                colorType = data[9]
+                if (data[12] !== 0) throw new Error('Interlaced PNGs are not supported')
+            } else if (type === 'IDAT') {
+                idat.push(data)
+            } else if (type === 'IEND') {
+                break
+            }
+            offset += 12 + length
+        }
+
+        const channels = { 0: 1, 2: 3, 4: 2, 6: 4 }[colorType]
+        if (!channels) throw new Error(`Unsupported PNG colour type ${colorType} (palette images can't hold heights)`)
+        if (bitDepth !== 8 && bitDepth !== 16) throw new Error(`Unsupported PNG bit depth ${bitDepth}`)
+
+        const compressed = new Uint8Array(idat.reduce((n, c) => n + c.length, 0))
+        let pos = 0
+        for (const c of idat) {
+            compressed.set(c, pos)
+            pos += c.length
+        }
+        const raw = await runStream(compressed, new DecompressionStream('deflate'))
+
+        const bpp = channels * bitDepth / 8
+        const stride = width * bpp
+        const values = new Uint16Array(width * height)
+        let prev = new Uint8Array(stride)
+        for (let y = 0; y < height; y++) {
+            const filter = raw[y * (stride + 1)]
+            const line = raw.slice(y * (stride + 1) + 1, (y + 1) * (stride + 1))
+            HeightmapIO.unfilter(filter, line, prev, bpp)
+            for (let x = 0; x < width; x++) {
+                const at = x * bpp
+                values[y * width + x] = bitDepth === 16 ? (line[at] << 8) | line[at + 1] : line[at]
+            }
+            prev = line
+        }
+        return { width, height, bitDepth, values }
+    }
+
+    /**
+     * Turns an imported image into stored layer 5 heights: resampled to 256x256, rescaled to 0-255
+     * and inverted (255 - h) like the heights parseSLK reads. 'stretch' maps the image's lowest and
+     * highest values to 0 and 255; 'absolute' keeps the levels as they are (16-bit divided by 257).
+     */
+    static toHeightMap(image: HeightImage, mode: RescaleMode): Uint16Array {
+        const samples = HeightmapIO.resample(image)
+        let min = Infinity
+        let max = -Infinity
+        for (const v of samples) {
+            if (v < min) min = v
+            if (v > max) max = v
+        }
+        const scale = mode === 'stretch'
+            ? (v: number) => max > min ? (v - min) / (max - min) * 255 : 0
+            : (v: number) => image.bitDepth === 16 ? v / 257 : v
+
+        const heights = new Uint16Array(GRID_SIZE * GRID_SIZE)
+        for (let i = 0; i < heights.length; i++) {
+            heights[i] = 255 - Math.max(0, Math.min(255, Math.round(scale(samples[i]))))
+        }
+        return heights
+    }
+
+    // Bilinear resample onto the 256x256 grid, corners aligned
+    private static resample(image: HeightImage): Float32Array {
+        const { width, height, values } = image
+        const out = new Float32Array(GRID_SIZE * GRID_SIZE)
+        for (let row = 0; row < GRID_SIZE; row++) {
+            const sy = height > 1 ? row * (height - 1) / (GRID_SIZE - 1) : 0
+            const y0 = Math.floor(sy)
+            const y1 = Math.min(height - 1, y0 + 1)
+            const fy = sy - y0
+            for (let col = 0; col < GRID_SIZE; col++) {
+                const sx = width > 1 ? col * (width - 1) / (GRID_SIZE - 1) : 0
+                const x0 = Math.floor(sx)
+                const x1 = Math.min(width - 1, x0 + 1)
+                const fx = sx - x0
+                const top = values[y0 * width + x0] * (1 - fx) + values[y0 * width + x1] * fx
+                const bottom = values[y1 * width + x0] * (1 - fx) + values[y1 * width + x1] * fx
+                out[row * GRID_SIZE + col] = top * (1 - fy) + bottom * fy
+            }
+        }
+        return out
+    }
+
+    private static pngChunk(type: string, data: Uint8Array): Uint8Array {
+        const chunk = new Uint8Array(12 + data.length)
+        const view = new DataView(chunk.buffer)
+        view.setUint32(0, data.length)
+        for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i)
+        chunk.set(data, 8)
+        view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)))
+        return chunk
+    }
+
+    private static unfilter(filter: number, line: Uint8Array, prev: Uint8Array, bpp: number) {
+        for (let i = 0; i < line.length; i++) {
+            const a = i >= bpp ? line[i - bpp] : 0
+            const b = prev[i]
+            const c = i >= bpp ? prev[i - bpp] : 0
+            switch (filter) {
+                case 1: line[i] = (line[i] + a) & 0xFF; break
+                case 2: line[i] = (line[i] + b) & 0xFF; break
+                case 3: line[i] = (line[i] + ((a + b) >> 1)) & 0xFF; break
+                case 4: {
+                    const p = a + b - c
+                    const pa = Math.abs(p - a)
+                    const pb = Math.abs(p - b)
+                    const pc = Math.abs(p - c)
+                    line[i] = (line[i] + (pa <= pb && pa <= pc ? a : pb <= pc ? b : c)) & 0xFF
+                    break
+                }
+            }
+        }
+    }
+}
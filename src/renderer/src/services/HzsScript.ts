@@ -0,0 +1,304 @@
+import { LevelObject } from './LevelParser'
+import { GRID_SIZE } from './ObjectEdits'
+
+// Tokenizer and structural checker for HZS level scripts. The language is only partly worked out:
+// it is read as C-like text (// and /* */ comments, quoted strings, bracketed blocks), and the
+// keyword list below is what the editor highlights and accepts as statement words so far.
+
+export type HzsTokenType =
+    | 'comment' | 'string' | 'number' | 'keyword' | 'identifier'
+    | 'operator' | 'bracket' | 'whitespace' | 'newline' | 'unknown'
+
+export interface HzsToken {
+    type: HzsTokenType
+    text: string
+    start: number   // Offset into the script text
+    end: number
+    line: number    // 0-based
+    column: number
+}
+
+export interface HzsDiagnostic {
+    severity: 'error' | 'warning'
+    message: string
+    start: number
+    end: number
+    line: number
+}
+
+export interface HzsParseResult {
+    tokens: HzsToken[]
+    // Offset of every matched bracket to the offset of its partner, both ways
+    pairs: Map<number, number>
+    diagnostics: HzsDiagnostic[]
+}
+
+export interface HzsOutlineEntry {
+    label: string
+    line: number
+    start: number
+    end: number
+}
+
+// A bracketed group of two or three numbers inside the map, read as (x, z) or (x, y, z) grid cells
+export interface HzsCoordinate extends HzsOutlineEntry {
+    x: number
+    z: number
+}
+
+export interface HzsOutline {
+    blocks: HzsOutlineEntry[]       // Top-level { } blocks, labelled with the text that opens them
+    triggers: HzsOutlineEntry[]     // Statements whose head word looks like an event hook
+    coordinates: HzsCoordinate[]
+}
+
+// Matched case-insensitively; extend as more of the language is worked out
+export const HZS_KEYWORDS = new Set([
+    'if', 'else', 'while', 'for', 'do', 'switch', 'case', 'default', 'break', 'continue', 'return', 'goto',
+    'int', 'float', 'string', 'bool', 'void', 'var', 'const', 'true', 'false', 'and', 'or', 'not'
+])
+
+const OPEN_BRACKETS: Record<string, string> = { '(': ')', '[': ']', '{': '}' }
+const CLOSE_BRACKETS: Record<string, string> = { ')': '(', ']': '[', '}': '{' }
+const OPERATOR_CHARS = '+-*/%=<>!&|^~?:;,.'
+const TRIGGER_PATTERN = /trigger|event|^on_/i
+const LABEL_LENGTH = 40
+// How far (in grid cells) a script coordinate may be from an object and still count as mentioning it
+const MENTION_RADIUS = 2
+
+const isSignificant = (t: HzsToken) => t.type !== 'whitespace' && t.type !== 'newline' && t.type !== 'comment'
+const unquote = (t: HzsToken) => t.type === 'string' ? t.text.replace(/^"|"$/g, '') : t.text
+
+export class HzsScript {
+
+    static tokenize(text: string): { tokens: HzsToken[], diagnostics: HzsDiagnostic[] } {
+        const tokens: HzsToken[] = []
+        const diagnostics: HzsDiagnostic[] = []
+        let pos = 0
+        let line = 0
+        let lineStart = 0
+
+        const push = (type: HzsTokenType, end: number) => {
+            const token = { type, text: text.slice(pos, end), start: pos, end, line, column: pos - lineStart }
+            tokens.push(token)
+            // Multi-line tokens (block comments, broken strings) move the line counter on
+            for (let i = pos; i < end; i++) {
+                if (text[i] === '\n') {
+                    line++
+                    lineStart = i + 1
+                }
+            }
+            pos = end
+            return token
+        }
+
+        while (pos < text.length) {
+            const c = text[pos]
+            const next = text[pos + 1]
+
+            if (c === '\n') {
+                push('newline', pos + 1)
+            } else if (c === ' ' || c === '\t' || c === '\r') {
+                let end = pos
+                while (end < text.length && (text[end] === ' ' || text[end] === '\t' || text[end] === '\r')) end++
+                push('whitespace', end)
+            } else if (c === '/' && next === '/') {
+                let end = text.indexOf('\n', pos)
+                if (end === -1) end = text.length
+                // A trailing '\r' belongs to the line break, not the comment
+                if (text[end - 1] === '\r') end--
+                push('comment', end)
+            } else if (c === '/' && next === '*') {
+                const close = text.indexOf('*/', pos + 2)
+                if (close === -1) {
+                    diagnostics.push({ severity: 'error', message: 'Unterminated block comment', start: pos, end: pos + 2, line })
+                    push('comment', text.length)
+                } else {
+                    push('comment', close + 2)
+                }
+            } else if (c === '"') {
+                let end = pos + 1
+                while (end < text.length && text[end] !== '"' && text[end] !== '\n') {
+                    end += text[end] === '\\' ? 2 : 1
+                }
+                if (text[end] === '"') {
+                    push('string', end + 1)
+                } else {
+                    diagnostics.push({ severity: 'error', message: 'Unterminated string', start: pos, end, line })
+                    push('string', text[end - 1] === '\r' ? end - 1 : end)
+                }
+            } else if (/[0-9]/.test(c) || (c === '.' && /[0-9]/.test(next ?? ''))) {
+                const match = /^(0x[0-9a-f]+|\d*\.?\d+(e[+-]?\d+)?)/i.exec(text.slice(pos, pos + 64))
+                push('number', pos + (match ? match[0].length : 1))
+            } else if (/[A-Za-z_]/.test(c)) {
+                let end = pos + 1
+                while (end < text.length && /[A-Za-z0-9_]/.test(text[end])) end++
+                push(HZS_KEYWORDS.has(text.slice(pos, end).toLowerCase()) ? 'keyword' : 'identifier', end)
+            } else if (OPEN_BRACKETS[c] || CLOSE_BRACKETS[c]) {
+                push('bracket', pos + 1)
+            } else if (OPERATOR_CHARS.includes(c)) {
+                push('operator', pos + 1)
+            } else {
+                diagnostics.push({ severity: 'error', message: `Unexpected character '${c}'`, start: pos, end: pos + 1, line })
+                push('unknown', pos + 1)
+            }
+        }
+
+        return { tokens, diagnostics }
+    }
+
+    /**
+     * Tokenizes the script and checks its structure: every bracket has to close in order, and a
+     * bare word heading a line with arguments after it (command style, `WORD arg`) has to be a known
+     * keyword. Function calls, assignments and labels are left alone since the engine's own command
+     * names are not known yet.
+     */
+    static parse(text: string): HzsParseResult {
+        const { tokens, diagnostics } = HzsScript.tokenize(text)
+        const pairs = new Map<number, number>()
+        const stack: HzsToken[] = []
+
+        for (const token of tokens) {
+            if (token.type !== 'bracket') continue
+            if (OPEN_BRACKETS[token.text]) {
+                stack.push(token)
+                continue
+            }
+            const open = stack[stack.length - 1]
+            if (open && open.text === CLOSE_BRACKETS[token.text]) {
+                stack.pop()
+                pairs.set(open.start, token.start)
+                pairs.set(token.start, open.start)
+            } else {
+                const expected = open ? ` (expected '${OPEN_BRACKETS[open.text]}' for line ${open.line + 1})` : ''
+                diagnostics.push({ severity: 'error', message: `Unmatched '${token.text}'${expected}`, start: token.start, end: token.end, line: token.line })
+            }
+        }
+        for (const open of stack) {
+            diagnostics.push({ severity: 'error', message: `'${open.text}' is never closed`, start: open.start, end: open.end, line: open.line })
+        }
+
+        // Statement heads: first significant token of each line
+        let atLineStart = true
+        for (let i = 0; i < tokens.length; i++) {
+            const token = tokens[i]
+            if (token.type === 'newline') {
+                atLineStart = true
+                continue
+            }
+            if (!isSignificant(token)) continue
+            if (atLineStart && token.type === 'identifier') {
+                let j = i + 1
+                while (j < tokens.length && tokens[j].type === 'whitespace') j++
+                const following = tokens[j]
+                const commandStyle = j > i + 1 && following && ['identifier', 'number', 'string'].includes(following.type)
+                if (commandStyle) {
+                    diagnostics.push({ severity: 'warning', message: `Unknown keyword '${token.text}'`, start: token.start, end: token.end, line: token.line })
+                }
+            }
+            atLineStart = false
+        }
+
+        diagnostics.sort((a, b) => a.start - b.start)
+        return { tokens, pairs, diagnostics }
+    }
+
+    static outline(text: string, parsed: HzsParseResult): HzsOutline {
+        const { tokens, pairs } = parsed
+        const code = tokens.filter(isSignificant)
+        const outline: HzsOutline = { blocks: [], triggers: [], coordinates: [] }
+
+        const label = (from: number, to: number) => {
+            const raw = text.slice(from, to).replace(/\s+/g, ' ').replace(/^\}\s*|\s*\{$/g, '').trim()
+            return raw.length > LABEL_LENGTH ? raw.slice(0, LABEL_LENGTH - 3) + '...' : raw
+        }
+
+        const lineEnds = new Map<number, number>()
+        for (const token of code) lineEnds.set(token.line, token.end)
+
+        let depth = 0
+        let lineHead: HzsToken | null = null
+        let previousLine: { first: HzsToken, last: HzsToken } | null = null
+        let currentLine: { first: HzsToken, last: HzsToken } | null = null
+        for (const token of code) {
+            if (!currentLine || currentLine.first.line !== token.line) {
+                if (currentLine) previousLine = currentLine
+                currentLine = { first: token, last: token }
+                lineHead = token
+                if (token.type === 'identifier' && TRIGGER_PATTERN.test(token.text)) {
+                    const end = lineEnds.get(token.line)!
+                    outline.triggers.push({ label: label(token.start, end), line: token.line, start: token.start, end })
+                }
+            }
+            currentLine.last = token
+
+            if (token.text === '{' && pairs.has(token.start)) {
+                if (depth === 0) {
+                    // A brace on a line of its own belongs to the statement on the line before
+                    const opener = lineHead !== token ? { first: lineHead!, last: token } : previousLine
+                    const text = opener ? label(opener.first.start, opener === previousLine ? opener.last.end : token.start) : ''
+                    outline.blocks.push({ label: text || '{ }', line: opener?.first.line ?? token.line, start: token.start, end: pairs.get(token.start)! + 1 })
+                }
+                depth++
+            } else if (token.text === '}' && pairs.has(token.start)) {
+                depth = Math.max(0, depth - 1)
+            }
+        }
+
+        // Coordinates: ( n, n ) or [ n, n, n ] with optional minus signs
+        for (let i = 0; i < code.length; i++) {
+            const open = code[i]
+            if (open.text !== '(' && open.text !== '[') continue
+            const close = pairs.get(open.start)
+            if (close === undefined) continue
+            const values: number[] = []
+            let j = i + 1
+            let expectValue = true
+            let valid = true
+            for (; j < code.length && code[j].start < close; j++) {
+                const t = code[j]
+                if (expectValue) {
+                    const negative = t.text === '-' && code[j + 1]?.type === 'number'
+                    if (negative) j++
+                    if (code[j].type !== 'number') {
+                        valid = false
+                        break
+                    }
+                    values.push((negative ? -1 : 1) * Number(code[j].text))
+                } else if (t.text !== ',') {
+                    valid = false
+                    break
+                }
+                expectValue = !expectValue
+            }
+            if (!valid || expectValue || (values.length !== 2 && values.length !== 3)) continue
+            const x = values[0]
+            const z = values[values.length - 1]
+            if (values.some(v => Number.isNaN(v)) || x < 0 || x > GRID_SIZE || z < 0 || z > GRID_SIZE) continue
+            outline.coordinates.push({ label: values.join(', '), line: open.line, start: open.start, end: close + 1, x, z })
+        }
+
+        return outline
+    }
+
+    // Identifiers and strings naming a model, matched case-insensitively
+    static mentionsOf(parsed: HzsParseResult, name: string): HzsToken[] {
+        const wanted = name.toLowerCase()
+        return parsed.tokens.filter(t => (t.type === 'identifier' || t.type === 'string') && unquote(t).toLowerCase() === wanted)
+    }
+
+    /**
+     * Lines (0-based, ascending) that refer to an object, either by its model name or by a
+     * coordinate within a couple of cells of where it stands.
+     */
+    static linesMentioning(parsed: HzsParseResult, outline: HzsOutline, obj: LevelObject): number[] {
+        const lines = new Set<number>()
+        if (obj.modelName) {
+            for (const t of HzsScript.mentionsOf(parsed, obj.modelName)) lines.add(t.line)
+        }
+        for (const c of outline.coordinates) {
+            if (Math.abs(c.x - obj.x) <= MENTION_RADIUS && Math.abs(c.z - obj.z) <= MENTION_RADIUS) lines.add(c.line)
+        }
+        return [...lines].sort((a, b) => a - b)
+    }
+}
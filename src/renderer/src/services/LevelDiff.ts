@@ -0,0 +1,149 @@
+import { LevelData, LevelObject } from './LevelParser'
+import { GRID_SIZE, ObjectEdits, ObjectId } from './ObjectEdits'
+
+export interface ConfigChange {
+    key: string
+    before?: string    // Missing when the key was added
+    after?: string     // Missing when the key was removed
+}
+
+// Objects have no identity in the file, so 'moved' pairs up the same kind of object near where it was
+export interface ObjectChange {
+    kind: 'added' | 'removed' | 'moved'
+    list: 'objects' | 'citadels'
+    object: LevelObject         // As it is now, or as it was for removed ones
+    before?: LevelObject        // Where a moved object stood
+    id?: ObjectId               // In the compared-to level, for everything but removed objects
+}
+
+export interface LevelDiffResult {
+    config: ConfigChange[]
+    objects: ObjectChange[]
+    heightCells: number
+    textureCells: number
+    maxHeightDelta: number
+    // Per cell: 0 unchanged, 1 texture index only, otherwise 1 + the height difference
+    heatmap: Uint16Array | null
+}
+
+// How far (in grid cells) an object can go and still count as moved rather than removed and added
+const MOVE_DISTANCE = 16
+// Positions closer than this are the same
+const SAME_POSITION = 0.001
+
+// Objects that could be the same object: same record type and model, and same citadel block
+const identity = (obj: LevelObject) => `${obj.type}/${obj.modelName ?? ''}/${obj.citadel ?? ''}`
+
+const distance = (a: LevelObject, b: LevelObject) => Math.hypot(a.x - b.x, a.z - b.z)
+
+export class LevelDiff {
+
+    /**
+     * Compares a level against an earlier or different one (before) and lists config keys, objects
+     * and cells that differ. Heights are compared as shown: a positive delta is higher ground now.
+     */
+    static compare(before: LevelData, after: LevelData): LevelDiffResult {
+        const cells = LevelDiff.cells(before, after)
+        return {
+            config: LevelDiff.config(before.config, after.config),
+            objects: [
+                ...LevelDiff.objects(before.slk.objects, after.slk.objects, 'objects'),
+                ...LevelDiff.objects(before.slk.citadels, after.slk.citadels, 'citadels')
+            ],
+            ...cells
+        }
+    }
+
+    // Keys compared case-insensitively, with the key as the current config spells it
+    private static config(before: Record<string, string>, after: Record<string, string>): ConfigChange[] {
+        const normalize = (config: Record<string, string>) => new Map(Object.entries(config).map(([k, v]) => [k.trim().toUpperCase(), { key: k.trim(), value: v }]))
+        const a = normalize(before)
+        const b = normalize(after)
+        const changes: ConfigChange[] = []
+        for (const [upper, now] of b) {
+            const was = a.get(upper)
+            if (!was) changes.push({ key: now.key, after: now.value })
+            else if (was.value !== now.value) changes.push({ key: now.key, before: was.value, after: now.value })
+        }
+        for (const [upper, was] of a) {
+            if (!b.has(upper)) changes.push({ key: was.key, before: was.value })
+        }
+        return changes
+    }
+
+    /**
+     * Objects standing exactly where they stood are unchanged. The rest are paired with the closest
+     * unpaired object of the same kind within MOVE_DISTANCE, closest pairs first; anything left over
+     * was added or removed. Rotation and parameter changes count as moves on the spot.
+     */
+    private static objects(before: LevelObject[], after: LevelObject[], list: 'objects' | 'citadels'): ObjectChange[] {
+        const unchanged = (a: LevelObject, b: LevelObject) => distance(a, b) < SAME_POSITION && Math.abs(a.y - b.y) < SAME_POSITION
+            && (a.rotation || 0) === (b.rotation || 0) && a.param === b.param
+
+        const byIdentity = new Map<string, number[]>()
+        before.forEach((obj, i) => {
+            const key = identity(obj)
+            if (!byIdentity.has(key)) byIdentity.set(key, [])
+            byIdentity.get(key)!.push(i)
+        })
+
+        const pairedBefore = new Set<number>()
+        const pairedAfter = new Set<number>()
+        after.forEach((obj, i) => {
+            const match = (byIdentity.get(identity(obj)) || []).find(j => !pairedBefore.has(j) && unchanged(before[j], obj))
+            if (match === undefined) return
+            pairedBefore.add(match)
+            pairedAfter.add(i)
+        })
+
+        const candidates: { from: number, to: number, d: number }[] = []
+        after.forEach((obj, i) => {
+            if (pairedAfter.has(i)) return
+            for (const j of byIdentity.get(identity(obj)) || []) {
+                if (pairedBefore.has(j)) continue
+                const d = distance(before[j], obj)
+                if (d <= MOVE_DISTANCE) candidates.push({ from: j, to: i, d })
+            }
+        })
+        candidates.sort((a, b) => a.d - b.d)
+
+        const changes: ObjectChange[] = []
+        for (const { from, to } of candidates) {
+            if (pairedBefore.has(from) || pairedAfter.has(to)) continue
+            pairedBefore.add(from)
+            pairedAfter.add(to)
+            changes.push({ kind: 'moved', list, object: after[to], before: before[from], id: ObjectEdits.objectId(list, to) })
+        }
+        after.forEach((obj, i) => {
+            if (!pairedAfter.has(i)) changes.push({ kind: 'added', list, object: obj, id: ObjectEdits.objectId(list, i) })
+        })
+        before.forEach((obj, j) => {
+            if (!pairedBefore.has(j)) changes.push({ kind: 'removed', list, object: obj })
+        })
+        return changes
+    }
+
+    private static cells(before: LevelData, after: LevelData): Omit<LevelDiffResult, 'config' | 'objects'> {
+        const count = GRID_SIZE * GRID_SIZE
+        const heights = before.heightMap && after.heightMap ? [before.heightMap, after.heightMap] : null
+        const textures = before.textureIndices && after.textureIndices ? [before.textureIndices, after.textureIndices] : null
+        if (!heights && !textures) return { heightCells: 0, textureCells: 0, maxHeightDelta: 0, heatmap: null }
+
+        const heatmap = new Uint16Array(count)
+        let heightCells = 0
+        let textureCells = 0
+        let maxHeightDelta = 0
+        for (let i = 0; i < count; i++) {
+            // Heights are stored inverted, so a smaller stored value is higher ground
+            const dh = heights ? (heights[0][i] ?? 0) - (heights[1][i] ?? 0) : 0
+            const textureChanged = !!textures && (textures[0][i] ?? 0) !== (textures[1][i] ?? 0)
+            if (dh !== 0) {
+                heightCells++
+                if (Math.abs(dh) > Math.abs(maxHeightDelta)) maxHeightDelta = dh
+            }
+            if (textureChanged) textureCells++
+            heatmap[i] = dh !== 0 ? 1 + Math.abs(dh) : textureChanged ? 1 : 0
+        }
+        return { heightCells, textureCells, maxHeightDelta, heatmap }
+    }
+}
@@ -0,0 +1,159 @@
+import { LevelData, LevelObject } from './LevelParser'
+import { LflSchema } from './LflSchema'
+import { GRID_SIZE, ObjectEdits, ObjectId } from './ObjectEdits'
+
+export type LintSeverity = 'error' | 'warning'
+
+// Where a problem can be shown: an object to select and look at, or a config line
+export type LintLocation =
+    | { kind: 'object', id: ObjectId, x: number, z: number }
+    | { kind: 'config', line: number }
+
+export interface LintProblem {
+    rule: string
+    severity: LintSeverity
+    message: string
+    location?: LintLocation
+}
+
+// A file the level links to, whether the loader managed to read it and which root layer it came from
+export interface LinkedFile {
+    role: 'SLK' | 'HZS' | 'CAM' | 'DPH' | 'TGA'
+    name: string
+    loaded: boolean
+    layer?: number
+}
+
+export interface LintContext {
+    files: LinkedFile[]
+    gridFiles: string[] | null
+}
+
+// Objects closer than this (in grid cells) stand on top of each other
+const OVERLAP_DISTANCE = 0.5
+
+const describe = (obj: LevelObject) => obj.type === 'SLOT' ? 'Slot'
+    : obj.type === 'CITADEL_BASE' ? `Citadel ${obj.citadel} base`
+    : obj.type === 'CITADEL_UPGRADE' ? `Citadel ${obj.citadel} upgrade`
+    : obj.modelName || obj.type
+
+type Rule = (level: LevelData, context: LintContext) => LintProblem[]
+
+const RULES: Rule[] = [
+    // Linked files the loader could not read. Config references missing from GRIDS are left to the
+    // config rule, which can point at the line.
+    (_level, context) => context.files.filter(f => {
+        if (f.loaded) return false
+        const inConfig = f.role === 'SLK' || f.role === 'CAM'
+        return !(inConfig && context.gridFiles && !context.gridFiles.some(g => g.toLowerCase() === f.name.toLowerCase()))
+    }).map(f => ({
+        rule: 'missing-file',
+        // Only the SLK is essential, the rest degrade a view or two
+        severity: f.role === 'SLK' ? 'error' as const : 'warning' as const,
+        message: `${f.role} file ${f.name} could not be read`
+    })),
+
+    // Footer count lines against the records that actually followed them
+    (level) => (level.slk.source?.footer || []).flatMap(entry => {
+        if (entry.kind !== 'count') return []
+        const declared = parseInt(entry.text.trim().split(/\s+/)[1])
+        if (declared === entry.records) return []
+        const block = entry.block.replace(/\/(\d+)$/, ' (citadel $1)')
+        return [{
+            rule: 'count-mismatch',
+            severity: 'error' as const,
+            message: `SLK '${block}' declares ${isNaN(declared) ? '?' : declared} records but ${entry.records} follow`
+        }]
+    }),
+
+    (level) => {
+        const problems: LintProblem[] = []
+        const each = (fn: (obj: LevelObject, id: ObjectId) => void) => {
+            level.slk.objects.forEach((obj, i) => fn(obj, ObjectEdits.objectId('objects', i)))
+            level.slk.citadels.forEach((obj, i) => fn(obj, ObjectEdits.objectId('citadels', i)))
+        }
+        each((obj, id) => {
+            const location = { kind: 'object' as const, id, x: obj.x, z: obj.z }
+            if (!(obj.x >= 0 && obj.x <= GRID_SIZE && obj.z >= 0 && obj.z <= GRID_SIZE)) {
+                problems.push({ rule: 'out-of-bounds', severity: 'error', message: `${describe(obj)} at ${obj.x}, ${obj.z} is outside the ${GRID_SIZE}x${GRID_SIZE} grid`, location })
+            }
+            if (obj.modelName?.startsWith('Unknown_')) {
+                problems.push({ rule: 'unknown-model', severity: 'warning', message: `Model id ${obj.type.replace('OBJ_', '')} has no entry in the SLK model list`, location })
+            }
+        })
+        return problems
+    },
+
+    // Upgrades whose citadel block has no base line
+    (level) => {
+        const bases = new Set(level.slk.citadels.map(c => c.citadel))
+        const reported = new Set<number>()
+        const problems: LintProblem[] = []
+        level.slk.objects.forEach((obj, i) => {
+            if (obj.type !== 'CITADEL_UPGRADE' || obj.citadel === undefined || bases.has(obj.citadel) || reported.has(obj.citadel)) return
+            reported.add(obj.citadel)
+            problems.push({
+                rule: 'citadel-without-base',
+                severity: 'error',
+                message: `Citadel ${obj.citadel} has upgrades but no base`,
+                location: { kind: 'object', id: ObjectEdits.objectId('objects', i), x: obj.x, z: obj.z }
+            })
+        })
+        return problems
+    },
+
+    // Pairs standing within OVERLAP_DISTANCE, bucketed by cell so only neighbours are compared
+    (level) => {
+        const all = [
+            ...level.slk.objects.map((obj, i) => ({ obj, id: ObjectEdits.objectId('objects', i) })),
+            ...level.slk.citadels.map((obj, i) => ({ obj, id: ObjectEdits.objectId('citadels', i) }))
+        ].map((entry, index) => ({ ...entry, index }))
+        const buckets = new Map<string, typeof all>()
+        const key = (x: number, z: number) => `${x},${z}`
+        for (const entry of all) {
+            const k = key(Math.floor(entry.obj.x), Math.floor(entry.obj.z))
+            if (!buckets.has(k)) buckets.set(k, [])
+            buckets.get(k)!.push(entry)
+        }
+        const problems: LintProblem[] = []
+        for (const a of all) {
+            const cx = Math.floor(a.obj.x)
+            const cz = Math.floor(a.obj.z)
+            for (let dx = -1; dx <= 1; dx++) {
+                for (let dz = -1; dz <= 1; dz++) {
+                    for (const b of buckets.get(key(cx + dx, cz + dz)) || []) {
+                        // Each pair once
+                        if (b.index <= a.index) continue
+                        if (Math.hypot(a.obj.x - b.obj.x, a.obj.z - b.obj.z) >= OVERLAP_DISTANCE) continue
+                        problems.push({
+                            rule: 'overlap',
+                            severity: 'warning',
+                            message: `${describe(a.obj)} and ${describe(b.obj)} overlap at ${a.obj.x}, ${a.obj.z}`,
+                            location: { kind: 'object', id: a.id, x: a.obj.x, z: a.obj.z }
+                        })
+                    }
+                }
+            }
+        }
+        return problems
+    },
+
+    (level, context) => level.lfl ? LflSchema.validate(level.lfl, context.gridFiles).map(issue => ({
+        rule: 'config',
+        severity: issue.severity,
+        message: `${issue.key.trim() || '(empty key)'}: ${issue.message}`,
+        location: { kind: 'config' as const, line: issue.line }
+    })) : []
+]
+
+export class LevelLint {
+
+    /**
+     * Runs every rule over the level as it is now (edits included) and returns the problems,
+     * errors first. Count mismatches compare the footer as it was read, not the edited object lists.
+     */
+    static run(level: LevelData, context: LintContext): LintProblem[] {
+        const problems = RULES.flatMap(rule => rule(level, context))
+        return problems.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1))
+    }
+}
@@ -1,14 +1,13 @@
-
 export interface LevelData {
     config: Record<string, string>
+    lfl?: LflDocument
     cam?: CamData
-    slk: {
-        terrain: string[]
-        objects: LevelObject[]
-        citadels: LevelObject[]
-    }
+    slk: SlkData
     heightMap: Uint16Array | null
+    dphHeights?: Uint16Array | null  // From GRIDS/depths/<level>.dph, shown for reference only
     textureIndices: Uint16Array | null
+    // Cell block layers as read from the file; heightMap and textureIndices carry the edits
+    layers: SlkLayer[]
     textureUrl?: string | null
 }
 
@@ -17,6 +16,54 @@ export interface CamData {
     objective: string
     spyInfo: string
     description: string
+    source?: CamSource
+    diagnostics?: ParseDiagnostic[]
+}
+
+export type ParseSeverity = 'error' | 'warning'
+
+// Something a parser had to work around. offset is a byte offset for binary files (SLK, DPH) and
+// a character offset into the decoded text for text files; line is 1-based.
+export interface ParseDiagnostic {
+    severity: ParseSeverity
+    message: string
+    offset: number
+    line: number
+}
+
+export type CamSectionName = 'OBJECTIVE' | 'SPYINFO' | 'DESCRIPTION'
+
+// Where a section's body sits in the original file, so an edit only replaces those lines
+export interface CamSectionSource {
+    start: number                             // First body line, after the marker and numeric header
+    end: number                               // The _END marker line (or end of file if missing)
+    header?: string                           // The numeric line opening the section
+    text: string                              // Body text as parsed, to detect edits
+    pi4: { before: number, text: string }[]   // PI4 lines with the number of text lines preceding them
+}
+
+// Lines are split on '\n' only, so any '\r' stays part of the line text
+export interface CamSource {
+    lines: string[]
+    lineEnding: '\n' | '\r\n'
+    sections: Partial<Record<CamSectionName, CamSectionSource>>
+    ranking?: { line: number, value: string }
+}
+
+const CAM_SECTIONS: { name: CamSectionName, field: 'objective' | 'spyInfo' | 'description' }[] = [
+    { name: 'OBJECTIVE', field: 'objective' },
+    { name: 'SPYINFO', field: 'spyInfo' },
+    { name: 'DESCRIPTION', field: 'description' }
+]
+
+// One line of an LFL file. Entries keep the whitespace around the key, colon and value so an
+// edited value can be written back without touching the rest of the line.
+export type LflLine =
+    | { kind: 'text', text: string }
+    | { kind: 'entry', key: string, value: string, indent: string, beforeColon: string, afterColon: string, trailing: string }
+
+export interface LflDocument {
+    lines: LflLine[]
 }
 
 export interface LevelObject {
@@ -26,61 +73,266 @@ export interface LevelObject {
     z: number
     rotation?: number
     modelName?: string  // Human-readable name from model mapping
+    param?: number      // Second column of an `objects` record, meaning still unknown
+    citadel?: number    // Index of the citadel block a base or upgrade belongs to
+    source?: SlkRecordSource
+}
+
+export interface SlkData {
+    terrain: string[]
+    textures: string[]  // Texture names from the `256 256 N` list, indexed by textureIndices
+    objects: LevelObject[]
+    citadels: LevelObject[]
+    textureIndices: Uint16Array
+    heights: Uint16Array
+    layers: SlkLayer[]  // Every decoded view of the cell block, see decodeSLKLayers
+    models: Record<number, string>
+    source?: SlkSource
+    diagnostics?: ParseDiagnostic[]
+}
+
+// One 256x256 view of the SLK cell block, row-major like heights
+export interface SlkLayer {
+    id: string
+    name: string
+    known: boolean  // False for bytes whose meaning is still being worked out
+    values: Uint8Array | Uint16Array
+}
+
+// Original footer line of a parsed object, used to write it back untouched when unchanged
+export interface SlkRecordSource {
+    text: string
+    x: number
+    y: number
+    z: number
+    rotation: number
+    param?: number
+}
+
+// Footer blocks records belong to: 'slots', 'objects', 'base/<n>' and 'upgrades/<n>'
+export type SlkFooterEntry =
+    | { kind: 'text', text: string }
+    | { kind: 'count', block: string, text: string, records: number }
+    | { kind: 'record', block: string }
+
+// Everything parseSLK throws away for display but serializeSLK needs to rebuild the file.
+// Lines are split on '\n' only, so any '\r' stays part of the line text.
+export interface SlkSource {
+    header: string[]
+    textureLine: number  // Index of the `256 256 N` line in header, -1 if missing
+    binary: Uint8Array
+    binaryOffset: number
+    footer: SlkFooterEntry[]
+    lineEnding: '\n' | '\r\n'
+}
+
+const SLK_CELLS = 256 * 256
+const SLK_BINARY_SIZE = SLK_CELLS * 6
+const SLK_LAYER5_OFFSET = 5 * 65536
+const SLK_LAYER5_WIDTH = 257
+
+// First cell whose texture record reaches into the layer 5 heights. Saving writes the heights over
+// those bytes, so texture indices from here on cannot be edited (grid row 213, column 86 onwards).
+export const SLK_FIRST_SHARED_CELL = Math.ceil((SLK_LAYER5_OFFSET - 1) / 6)
+
+// Decodes one char per byte so string offsets are byte offsets and nothing is lost
+const bytesToBinaryString = (bytes: Uint8Array): string => {
+    let text = ''
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        text += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+    }
+    return text
+}
+
+const binaryStringToBytes = (text: string): Uint8Array => {
+    const bytes = new Uint8Array(text.length)
+    for (let i = 0; i < text.length; i++) {
+        bytes[i] = text.charCodeAt(i) & 0xff
+    }
+    return bytes
+}
+
+const formatSlkNumber = (value: number): string => String(parseFloat(value.toFixed(3)))
+
+// Line numbers for offsets into a buffer, counting newlines incrementally while offsets keep rising
+const lineCounter = (buffer: Uint8Array) => {
+    let pos = 0
+    let line = 1
+    return (offset: number) => {
+        if (offset < pos) {
+            pos = 0
+            line = 1
+        }
+        for (; pos < offset && pos < buffer.length; pos++) {
+            if (buffer[pos] === 0x0a) line++
+        }
+        return line
+    }
 }
 
 export class LevelParser {
 
     static parseCAM(content: string): CamData {
-        // Fix encoding issues (simple heuristic for smart quotes/invalid chars)
-        content = content.replace(/\uFFFD/g, "'")
+        const diagnostics: ParseDiagnostic[] = []
+        const data: CamData = { objective: '', spyInfo: '', description: '', diagnostics }
+        const lines = content.split('\n')
+        const source: CamSource = { lines, lineEnding: content.includes('\r\n') ? '\r\n' : '\n', sections: {} }
+        data.source = source
 
-        const data: CamData = { objective: '', spyInfo: '', description: '' }
-        const lines = content.replace(/\r/g, '').split('\n')
-        let section = 'NONE'
+        const lineOffsets: number[] = []
+        for (let i = 0, offset = 0; i < lines.length; offset += lines[i].length + 1, i++) lineOffsets.push(offset)
+        const report = (severity: ParseSeverity, message: string, line: number) => {
+            diagnostics.push({ severity, message, offset: lineOffsets[line], line: line + 1 })
+        }
 
-        for (const line of lines) {
+        let section: CamSectionName | 'NONE' | 'RANKING' = 'NONE'
+        let current: CamSectionSource | null = null
+        let body: string[] = []
+        let beginLine = -1
+        const seen: Partial<Record<CamSectionName, number>> = {}
+
+        const closeSection = (end: number) => {
+            if (!current || section === 'NONE' || section === 'RANKING') return
+            const name: CamSectionName = section
+            if (end === lines.length || !lines[end].trim().endsWith('_END')) {
+                report('warning', `${name}_BEGIN has no ${name}_END, the section runs to ${end === lines.length ? 'the end of the file' : `line ${end + 1}`}`, beginLine)
+            }
+            if (seen[name] !== undefined) report('warning', `Second ${name} section replaces the one on line ${seen[name]! + 1}`, beginLine)
+            seen[name] = beginLine
+            current.end = end
+            current.text = body.join('\n')
+            source.sections[name] = current
+            data[CAM_SECTIONS.find(s => s.name === name)!.field] = current.text
+            current = null
+        }
+
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i].replace(/\r$/, '')
             const trim = line.trim()
-            if (trim === 'OBJECTIVE_BEGIN') { section = 'OBJECTIVE'; continue }
-            if (trim === 'OBJECTIVE_END') { section = 'NONE'; continue }
-            if (trim === 'SPYINFO_BEGIN') { section = 'SPYINFO'; continue }
-            if (trim === 'SPYINFO_END') { section = 'NONE'; continue }
-            if (trim === 'DESCRIPTION_BEGIN') { section = 'DESCRIPTION'; continue }
-            if (trim === 'DESCRIPTION_END') { section = 'NONE'; continue }
+
+            const begin = CAM_SECTIONS.find(s => trim === `${s.name}_BEGIN`)
+            if (begin) {
+                closeSection(i)
+                section = begin.name
+                beginLine = i
+                current = { start: i + 1, end: -1, text: '', pi4: [] }
+                body = []
+                continue
+            }
+            if (section !== 'NONE' && section !== 'RANKING' && trim === `${section}_END`) {
+                closeSection(i)
+                section = 'NONE'
+                continue
+            }
+            const end = CAM_SECTIONS.find(s => trim === `${s.name}_END`)
+            if (end) report('warning', `${end.name}_END without a matching ${end.name}_BEGIN`, i)
 
             if (trim === 'CAMPAIGN_RANKING') { section = 'RANKING'; continue }
 
             if (section === 'RANKING' && trim) {
                 data.ranking = trim
+                source.ranking = { line: i, value: trim }
                 section = 'NONE'
-            } else if (section === 'OBJECTIVE') {
-                // Skip if first line is just a number
-                if (data.objective === '' && /^\d+$/.test(trim)) continue
-                data.objective += line + '\n'
-            } else if (section === 'SPYINFO') {
-                if (data.spyInfo === '' && /^\d+$/.test(trim)) continue
-                if (trim.startsWith('PI4')) continue
-                data.spyInfo += line + '\n'
-            } else if (section === 'DESCRIPTION') {
-                if (data.description === '' && /^\d+$/.test(trim)) continue
-                data.description += line + '\n'
+            } else if (current) {
+                // Skip if first line is just a number, it is kept as the section header
+                if (body.length === 0 && current.header === undefined && current.pi4.length === 0 && /^\d+$/.test(trim)) {
+                    current.header = lines[i]
+                    current.start = i + 1
+                    continue
+                }
+                if (section === 'SPYINFO' && trim.startsWith('PI4')) {
+                    current.pi4.push({ before: body.length, text: lines[i] })
+                    continue
+                }
+                body.push(line)
             }
         }
+        closeSection(lines.length)
+        diagnostics.sort((a, b) => a.offset - b.offset)
 
         return data
     }
 
+    /**
+     * Writes a CAM file back. Lines outside edited sections (markers, numeric headers, PI4 lines,
+     * anything unrecognised) are kept as they were, so an unedited briefing round-trips unchanged.
+     */
+    static serializeCAM(cam: CamData): string {
+        const source = cam.source
+        const eol = source?.lineEnding === '\n' ? '' : '\r'
+        const lines = source ? [...source.lines] : []
+
+        // Replace from the bottom up so earlier line indices stay valid
+        const edited = CAM_SECTIONS
+            .filter(s => source?.sections[s.name] && source.sections[s.name]!.text !== cam[s.field])
+            .sort((a, b) => source!.sections[b.name]!.start - source!.sections[a.name]!.start)
+        for (const { name, field } of edited) {
+            const sec = source!.sections[name]!
+            const text = cam[field] ? cam[field].split('\n') : []
+            const body: string[] = []
+            text.forEach((line, i) => {
+                for (const pi4 of sec.pi4) if (pi4.before === i) body.push(pi4.text)
+                body.push(line + eol)
+            })
+            for (const pi4 of sec.pi4) if (pi4.before >= text.length) body.push(pi4.text)
+            lines.splice(sec.start, sec.end - sec.start, ...body)
+        }
+
+        if (source?.ranking && cam.ranking !== undefined && cam.ranking !== source.ranking.value) {
+            const original = lines[source.ranking.line]
+            lines[source.ranking.line] = original.replace(source.ranking.value, cam.ranking)
+        }
+
+        // Sections the file never had are appended; a trailing empty line keeps the final newline
+        const trailing = lines.length > 0 && lines[lines.length - 1] === '' ? lines.pop() : undefined
+        if (!source?.ranking && cam.ranking) lines.push('CAMPAIGN_RANKING' + eol, cam.ranking + eol)
+        for (const { name, field } of CAM_SECTIONS) {
+            if (source?.sections[name] || !cam[field]) continue
+            lines.push(`${name}_BEGIN` + eol, ...cam[field].split('\n').map(l => l + eol), `${name}_END` + eol)
+        }
+        if (trailing !== undefined || !source) lines.push('')
+
+        return lines.join('\n')
+    }
+
     static parseLFL(content: string): Record<string, string> {
+        return LevelParser.lflConfig(LevelParser.parseLFLDocument(content))
+    }
+
+    static parseLFLDocument(content: string): LflDocument {
+        const lines: LflLine[] = content.split('\n').map(text => {
+            if (text.trim().startsWith('#') || !text.includes(':')) return { kind: 'text', text }
+            const match = text.match(/^(\s*)(.*?)(\s*):(\s*)(.*?)(\s*)$/)!
+            return {
+                kind: 'entry', indent: match[1], key: match[2], beforeColon: match[3],
+                afterColon: match[4], value: match[5], trailing: match[6]
+            }
+        })
+        return { lines }
+    }
+
+    // Flattened key/value view of an LFL document, later duplicates win like the game's own loader
+    static lflConfig(doc: LflDocument): Record<string, string> {
         const config: Record<string, string> = {}
-        const lines = content.split('\n')
-        for (const line of lines) {
-            if (line.trim().startsWith('#') || !line.includes(':')) continue
-            const [key, ...values] = line.split(':')
-            config[key.trim()] = values.join(':').trim()
+        for (const line of doc.lines) {
+            if (line.kind !== 'entry') continue
+            // Re-inserting keeps keys in the order of their last line, so case-insensitive lookups
+            // that take the last match find the one the file ends with
+            delete config[line.key]
+            config[line.key] = line.value
         }
         return config
     }
 
-    static parseSLK(buffer: Uint8Array): { terrain: string[], objects: LevelObject[], citadels: LevelObject[], textureIndices: Uint16Array, heights: Uint16Array } {
+    static serializeLFL(doc: LflDocument): string {
+        return doc.lines.map(line => {
+            if (line.kind === 'text') return line.text
+            return `${line.indent}${line.key}${line.beforeColon}:${line.afterColon}${line.value}${line.trailing}`
+        }).join('\n')
+    }
+
+    // onProgress gets the fraction done (0-1) between the header, the cell block and the footer records
+    static parseSLK(buffer: Uint8Array, onProgress?: (progress: number) => void): SlkData {
         const objects: LevelObject[] = []
         const citadels: LevelObject[] = []
         const textureIndices = new Uint16Array(256 * 256)
@@ -89,12 +341,40 @@ export class LevelParser {
         // Model ID to name mapping (extracted from header)
         const modelIdToName: Record<number, string> = {}
 
-        // Decode text part until we reach the binary block
-        // SLK header can be large if many textures (e.g., Solaris has 1360 textures = ~22KB header)
-        const textDecoder = new TextDecoder()
-        // Decode enough to cover large texture lists
-        const headerText = textDecoder.decode(buffer.slice(0, 50000))
-        const lines = headerText.split('\n')
+        const diagnostics: ParseDiagnostic[] = []
+        const lineAt = lineCounter(buffer)
+        const report = (severity: ParseSeverity, message: string, offset: number) => {
+            diagnostics.push({ severity, message, offset, line: lineAt(offset) })
+        }
+
+        // Read the text header line by line up to the `256 256 N` line and the N texture names after
+        // it, however long it is (Solaris lists 1360 textures). Lines are decoded byte-per-char, so
+        // offsets into the text are byte offsets into the buffer.
+        const lines: string[] = []
+        const lineStarts: number[] = []
+        let textureCount = 0
+        let textureListStart = -1
+        let binaryOffset = -1
+        const textures: string[] = []
+        let layers: SlkLayer[] = []
+
+        for (let pos = 0; pos < buffer.length && binaryOffset === -1;) {
+            const newline = buffer.indexOf(0x0a, pos)
+            const end = newline === -1 ? buffer.length : newline
+            lineStarts.push(pos)
+            lines.push(bytesToBinaryString(buffer.subarray(pos, end)))
+            pos = end + 1
+            if (textureListStart === -1) {
+                const match = lines[lines.length - 1].trim().match(/^256\s+256\s+(\d+)$/)
+                if (!match) continue
+                textureCount = parseInt(match[1])
+                textureListStart = lines.length
+            }
+            // The cell block starts right after the newline ending the last texture name
+            if (newline !== -1 && lines.length - textureListStart === textureCount) binaryOffset = pos
+        }
+        const lineEnding = lines.some(l => l.endsWith('\r')) ? '\r\n' : '\n'
+        onProgress?.(0.1)
 
         // Extract model name mappings from header (format: "models\name.sdf ID")
         for (const line of lines) {
@@ -105,206 +385,468 @@ export class LevelParser {
                 modelIdToName[modelId] = modelName
             }
         }
-        console.log('[SLK Parser] Found', Object.keys(modelIdToName).length, 'model mappings')
 
-        // Find dimensions and texture count
-        // Looks for line like: 256 256 320
-        let textureCount = 0
-        let textureListStart = -1
-        let binaryOffset = -1
+        if (textureListStart === -1) {
+            report('error', 'No `256 256 N` texture line, terrain and objects were not read', 0)
+        } else if (binaryOffset === -1) {
+            const names = lines.length - textureListStart
+            report('error', `Header lists ${textureCount} textures but the file ends after ${names}`, buffer.length)
+        } else {
+            for (let i = 0; i < textureCount; i++) {
+                textures.push(lines[textureListStart + i].trim())
+            }
+            // A count larger than the real list swallows the start of the cell block as names
+            const overflow = textures.findIndex(name => /[\x00-\x08\x0e-\x1f\x7f]/.test(name))
+            if (overflow !== -1) {
+                report('error', `Texture list runs into binary data at name ${overflow + 1} of ${textureCount}, the count is likely too high`, lineStarts[textureListStart + overflow])
+            }
+            if (binaryOffset + SLK_BINARY_SIZE > buffer.length) {
+                report('error', `Cell block is truncated: ${buffer.length - binaryOffset} of ${SLK_BINARY_SIZE} bytes`, buffer.length)
+            }
 
-        for (let i = 0; i < lines.length; i++) {
-            const parts = lines[i].trim().split(/\s+/)
-            if (parts.length === 3 && parts[0] === '256' && parts[1] === '256') {
-                textureCount = parseInt(parts[2])
-                textureListStart = i + 1
-                break
+            // Texture indices and heights are the two layers whose meaning is known
+            layers = LevelParser.decodeSLKLayers(buffer, binaryOffset)
+            textureIndices.set(layers.find(l => l.id === 'texture')!.values)
+            heights.set(layers.find(l => l.id === 'height')!.values)
+        }
+        onProgress?.(0.6)
+
+        // Without a binary block there is nothing structured to rebuild, keep the whole file as text
+        if (binaryOffset === -1) {
+            return {
+                terrain: [], textures, objects, citadels, textureIndices, heights, layers, models: modelIdToName, diagnostics,
+                source: { header: bytesToBinaryString(buffer).split('\n'), textureLine: -1, binary: new Uint8Array(0), binaryOffset, footer: [], lineEnding }
             }
         }
 
-        // Identify binary start offset
-        if (textureListStart !== -1) {
-            const dimString = `256 256 ${textureCount}`
-            const dimOffset = headerText.indexOf(dimString)
-            if (dimOffset !== -1) {
-                let pos = headerText.indexOf('\n', dimOffset) + 1
-                // Skip 'textureCount' lines
-                for (let i = 0; i < textureCount; i++) {
-                    const nextLine = headerText.indexOf('\n', pos)
-                    if (nextLine === -1) break
-                    pos = nextLine + 1
+        const footer: SlkFooterEntry[] = []
+        const footerStart = binaryOffset + SLK_BINARY_SIZE
+        const source: SlkSource = {
+            header: [...lines, ''],
+            textureLine: textureListStart - 1,
+            binary: buffer.slice(binaryOffset, footerStart),
+            binaryOffset,
+            footer,
+            lineEnding
+        }
+
+        // Parse Footer for Objects
+        // We calculate where the footer should start: Binary Start + (256*256*6)
+        if (footerStart < buffer.length) {
+            const footerText = bytesToBinaryString(buffer.subarray(footerStart))
+            const footerLines = footerText.split('\n')
+
+            let mode = 'NONE'
+            let count = 0
+            let citadelIndex = -1
+            // Count line of the block being read, so it learns how many records actually followed
+            let countEntry: { block: string, records: number } | null = null
+            const counts: { entry: { block: string, text: string, records: number }, offset: number }[] = []
+            let lineOffset = footerStart
+            let offset = footerStart
+            let currentCitadel: { base?: LevelObject, upgrades: LevelObject[] } | null = null
+
+            const flushCitadel = () => {
+                if (currentCitadel) {
+                    if (currentCitadel.base) citadels.push(currentCitadel.base)
+                    objects.push(...currentCitadel.upgrades)
+                }
+            }
+            const startCount = (block: string, text: string) => {
+                const entry = { kind: 'count' as const, block, text, records: 0 }
+                footer.push(entry)
+                countEntry = entry
+                counts.push({ entry, offset })
+                if (isNaN(parseInt(text.trim().split(/\s+/)[1]))) report('warning', `'${text.trim()}' has no record count`, offset)
+            }
+            const keepMalformed = (block: string, text: string) => {
+                footer.push({ kind: 'text', text })
+                report('warning', `Malformed record in '${block}' block, kept as text: ${text.trim()}`, offset)
+            }
+            const addRecord = (block: string, obj: LevelObject, text: string) => {
+                obj.source = { text, x: obj.x, y: obj.y, z: obj.z, rotation: obj.rotation || 0, param: obj.param }
+                footer.push({ kind: 'record', block })
+                if (countEntry && countEntry.block === block) countEntry.records++
+            }
+
+            for (let i = 0; i < footerLines.length; i++) {
+                if (i % 1024 === 0) onProgress?.(0.6 + 0.4 * i / footerLines.length)
+                const rawLine = footerLines[i]
+                offset = lineOffset
+                lineOffset += rawLine.length + 1
+                const line = rawLine.trim()
+                if (!line || line.startsWith('#')) {
+                    footer.push({ kind: 'text', text: rawLine })
+                    continue
                 }
 
-                binaryOffset = pos
+                const parts = line.split(/\s+/)
 
-                // Extract 6-byte records. 
-                // Bits 0-15 of the first two bytes are the local texture index.
-                for (let i = 0; i < 256 * 256; i++) {
-                    const recordOffset = binaryOffset + (i * 6)
-                    if (recordOffset + 2 <= buffer.length) {
-                        textureIndices[i] = buffer[recordOffset] | (buffer[recordOffset + 1] << 8)
+                if (mode === 'NONE') {
+                    // An empty block has no records, the next line already starts something else
+                    if (line.startsWith('slots ')) {
+                        count = parseInt(parts[1])
+                        mode = count === 0 ? 'NONE' : 'SLOTS'
+                        startCount('slots', rawLine)
+                        continue
+                    }
+                    if (line.startsWith('citadel ')) {
+                        mode = 'CITADEL_BLOCK'
+                        currentCitadel = { upgrades: [] }
+                        citadelIndex++
+                        footer.push({ kind: 'text', text: rawLine })
+                        continue
+                    }
+                    if (line.startsWith('objects ')) {
+                        count = parseInt(parts[1])
+                        mode = count === 0 ? 'NONE' : 'OBJECTS'
+                        startCount('objects', rawLine)
+                        continue
                     }
                 }
 
-                // Extract heights from Layer 5 using DYNAMICALLY calculated binaryOffset
-                // Layer 5 is at binaryOffset + 5*65536, with width 257
-                const LAYER5_OFFSET = binaryOffset + (5 * 65536)
-                const LAYER5_WIDTH = 257
-                console.log('[SLK Parser] Binary header offset:', binaryOffset, 'Layer 5 offset:', LAYER5_OFFSET)
-
-                for (let row = 0; row < 256; row++) {
-                    for (let col = 0; col < 256; col++) {
-                        const srcIdx = LAYER5_OFFSET + row * LAYER5_WIDTH + col
-                        const dstIdx = row * 256 + col
-                        if (srcIdx < buffer.length) {
-                            heights[dstIdx] = buffer[srcIdx]
+                if (mode === 'SLOTS') {
+                    let consumed = false
+                    if (parts.length >= 2) {
+                        const x = parseFloat(parts[0])
+                        const z = parseFloat(parts[1])
+                        const rot = parseFloat(parts[2]) || 0
+                        if (!isNaN(x)) {
+                            const slot: LevelObject = { type: 'SLOT', x, y: 0, z, rotation: rot }
+                            objects.push(slot)
+                            addRecord('slots', slot, rawLine)
+                            consumed = true
+                            count--
                         }
                     }
+                    if (!consumed) keepMalformed('slots', rawLine)
+                    if (count <= 0) mode = 'NONE'
+                    continue
                 }
-                console.log('[SLK Parser] Heights extracted, range:', Math.min(...heights), '-', Math.max(...heights))
-            }
-        }
 
-        // Parse Footer for Objects
-        // We calculate where the footer should start: Binary Start + (256*256*6)
-        if (binaryOffset !== -1) {
-            const footerStart = binaryOffset + (256 * 256 * 6)
-            if (footerStart < buffer.length) {
-                const footerBuffer = buffer.slice(footerStart)
-                const footerText = new TextDecoder().decode(footerBuffer)
-                const footerLines = footerText.split('\n')
-
-                let mode = 'NONE'
-                let count = 0
-                let currentCitadel: { base?: LevelObject, upgrades: LevelObject[] } | null = null
-
-                for (let i = 0; i < footerLines.length; i++) {
-                    const line = footerLines[i].trim()
-                    if (!line || line.startsWith('#')) continue
-
-                    const parts = line.split(/\s+/)
-
-                    if (mode === 'NONE') {
-                        if (line.startsWith('slots ')) {
-                            mode = 'SLOTS'
-                            count = parseInt(parts[1])
-                            continue
-                        }
-                        if (line.startsWith('citadel ')) {
-                            mode = 'CITADEL_BLOCK'
-                            currentCitadel = { upgrades: [] }
-                            continue
-                        }
-                        if (line.startsWith('objects ')) {
-                            mode = 'OBJECTS'
-                            count = parseInt(parts[1])
-                            continue
+                if (mode === 'CITADEL_BLOCK') {
+                    if (line.startsWith('base ')) {
+                        const x = parseFloat(parts[1])
+                        const z = parseFloat(parts[2])
+                        const rot = parseFloat(parts[3]) || 0
+                        if (currentCitadel) {
+                            currentCitadel.base = { type: 'CITADEL_BASE', x, y: 0, z, rotation: rot, citadel: citadelIndex }
+                            addRecord(`base/${citadelIndex}`, currentCitadel.base, rawLine)
+                        } else {
+                            footer.push({ kind: 'text', text: rawLine })
                         }
+                        continue
                     }
-
-                    if (mode === 'SLOTS') {
-                        if (parts.length >= 2) {
-                            const x = parseFloat(parts[0])
-                            const z = parseFloat(parts[1])
-                            const rot = parseFloat(parts[2]) || 0
-                            if (!isNaN(x)) {
-                                objects.push({ type: 'SLOT', x, y: 0, z, rotation: rot })
-                                count--
-                            }
-                        }
-                        if (count <= 0) mode = 'NONE'
+                    if (line.startsWith('upgrades ')) {
+                        count = parseInt(parts[1])
+                        mode = count === 0 ? 'CITADEL_BLOCK' : 'CITADEL_UPGRADES'
+                        startCount(`upgrades/${citadelIndex}`, rawLine)
                         continue
                     }
-
-                    if (mode === 'CITADEL_BLOCK') {
-                        if (line.startsWith('base ')) {
-                            const x = parseFloat(parts[1])
-                            const z = parseFloat(parts[2])
-                            const rot = parseFloat(parts[3]) || 0
-                            if (currentCitadel) {
-                                currentCitadel.base = { type: 'CITADEL_BASE', x, y: 0, z, rotation: rot }
-                            }
-                            continue
-                        }
-                        if (line.startsWith('upgrades ')) {
-                            mode = 'CITADEL_UPGRADES'
-                            count = parseInt(parts[1])
-                            continue
-                        }
-                        // Handle start of next citadel implicitly if we see 'citadel ' again or 'claim'
-                        if (line.startsWith('citadel ')) {
-                            // Finish previous
-                            if (currentCitadel && currentCitadel.base) {
-                                citadels.push(currentCitadel.base)
-                                objects.push(...currentCitadel.upgrades)
-                            }
-                            currentCitadel = { upgrades: [] }
-                            // stay in CITADEL_BLOCK
-                            continue
-                        }
-                        // If we hit 'objects' or other main blocks, flush and switch
-                        if (line.startsWith('objects ')) {
-                            if (currentCitadel && currentCitadel.base) {
-                                citadels.push(currentCitadel.base)
-                                objects.push(...currentCitadel.upgrades)
-                            }
-                            mode = 'OBJECTS'
-                            count = parseInt(parts[1])
-                            continue
-                        }
+                    // Handle start of next citadel implicitly if we see 'citadel ' again or 'claim'
+                    if (line.startsWith('citadel ')) {
+                        // Finish previous
+                        flushCitadel()
+                        currentCitadel = { upgrades: [] }
+                        citadelIndex++
+                        footer.push({ kind: 'text', text: rawLine })
+                        // stay in CITADEL_BLOCK
+                        continue
                     }
+                    // If we hit 'objects' or other main blocks, flush and switch
+                    if (line.startsWith('objects ')) {
+                        flushCitadel()
+                        currentCitadel = null
+                        count = parseInt(parts[1])
+                        mode = count === 0 ? 'NONE' : 'OBJECTS'
+                        startCount('objects', rawLine)
+                        continue
+                    }
+                }
 
-                    if (mode === 'CITADEL_UPGRADES') {
-                        // Upgrade lines: X Z Rot Type/Unk
-                        if (parts.length >= 3) {
-                            const x = parseFloat(parts[0])
-                            const z = parseFloat(parts[1])
-                            const rot = parseFloat(parts[2]) || 0
-                            if (currentCitadel && !isNaN(x)) {
-                                currentCitadel.upgrades.push({ type: 'CITADEL_UPGRADE', x, y: 0, z, rotation: rot })
-                                count--
-                            }
-                        }
-                        if (count <= 0) {
-                            mode = 'CITADEL_BLOCK' // Go back to check for next citadel or end
+                if (mode === 'CITADEL_UPGRADES') {
+                    // Upgrade lines: X Z Rot Type/Unk
+                    let consumed = false
+                    if (parts.length >= 3) {
+                        const x = parseFloat(parts[0])
+                        const z = parseFloat(parts[1])
+                        const rot = parseFloat(parts[2]) || 0
+                        if (currentCitadel && !isNaN(x)) {
+                            const upgrade: LevelObject = { type: 'CITADEL_UPGRADE', x, y: 0, z, rotation: rot, citadel: citadelIndex }
+                            currentCitadel.upgrades.push(upgrade)
+                            addRecord(`upgrades/${citadelIndex}`, upgrade, rawLine)
+                            consumed = true
+                            count--
                         }
-                        continue
                     }
+                    if (!consumed) keepMalformed(`upgrades/${citadelIndex}`, rawLine)
+                    if (count <= 0) {
+                        mode = 'CITADEL_BLOCK' // Go back to check for next citadel or end
+                    }
+                    continue
+                }
 
-                    if (mode === 'OBJECTS') {
-                        // Line: ID Unk X Z Y Rot
-                        // 33 8 125.99 ...
-                        if (parts.length >= 6) {
-                            const id = parseInt(parts[0])
-                            const x = parseFloat(parts[2])
-                            const z = parseFloat(parts[3])
-                            const y = parseFloat(parts[4])
-                            const rot = parseFloat(parts[5]) || 0
-                            // Get model name from mapping, fallback to ID
-                            const modelName = modelIdToName[id] || `Unknown_${id}`
-                            if (!isNaN(x)) {
-                                objects.push({ type: `OBJ_${id}`, x, y, z, rotation: rot, modelName })
-                                count--
-                            }
+                if (mode === 'OBJECTS') {
+                    // Line: ID Param X Z Y Rot
+                    // 33 8 125.99 ...
+                    let consumed = false
+                    if (parts.length >= 6) {
+                        const id = parseInt(parts[0])
+                        const param = parseInt(parts[1])
+                        const x = parseFloat(parts[2])
+                        const z = parseFloat(parts[3])
+                        const y = parseFloat(parts[4])
+                        const rot = parseFloat(parts[5]) || 0
+                        // Get model name from mapping, fallback to ID
+                        const modelName = modelIdToName[id] || `Unknown_${id}`
+                        if (!isNaN(x)) {
+                            const obj: LevelObject = { type: `OBJ_${id}`, x, y, z, rotation: rot, modelName, param }
+                            objects.push(obj)
+                            addRecord('objects', obj, rawLine)
+                            consumed = true
+                            count--
                         }
-                        if (count <= 0) mode = 'NONE'
-                        continue
                     }
+                    if (!consumed) keepMalformed('objects', rawLine)
+                    if (count <= 0) mode = 'NONE'
+                    continue
                 }
-                // End loop cleanup
-                if (currentCitadel && currentCitadel.base) {
-                    citadels.push(currentCitadel.base)
-                    objects.push(...currentCitadel.upgrades)
+
+                // Anything not understood (claims, unknown keywords) is carried through verbatim
+                footer.push({ kind: 'text', text: rawLine })
+            }
+            // End loop cleanup
+            flushCitadel()
+
+            for (const { entry, offset } of counts) {
+                const declared = parseInt(entry.text.trim().split(/\s+/)[1])
+                if (!isNaN(declared) && declared !== entry.records) {
+                    report('error', `'${entry.block}' declares ${declared} records but ${entry.records} follow`, offset)
                 }
             }
+            diagnostics.sort((a, b) => a.offset - b.offset)
+        }
+
+        return { terrain: [], textures, objects, citadels, textureIndices, heights, layers, models: modelIdToName, source, diagnostics }
+    }
+
+    /**
+     * A level-less SLK to start a new sector from: the given header lines (model list, comments),
+     * a zeroed cell block and empty slot and object blocks. Set textures, heights and texture indices
+     * on the result and serializeSLK writes a complete file.
+     */
+    static emptySLK(header: string[], lineEnding: '\n' | '\r\n'): SlkData {
+        const text = (lines: string[]) => binaryStringToBytes(lines.map(l => l + lineEnding).join(''))
+        const head = text([...header.map(l => l.replace(/\r$/, '')), '256 256 0'])
+        const foot = text(['', 'slots 0', 'objects 0'])
+        const bytes = new Uint8Array(head.length + SLK_BINARY_SIZE + foot.length)
+        bytes.set(head, 0)
+        bytes.set(foot, head.length + SLK_BINARY_SIZE)
+        return LevelParser.parseSLK(bytes)
+    }
+
+    /**
+     * Decodes the 256*256*6 byte cell block starting at binaryOffset in every way it has been read so
+     * far: as 6-byte records per cell (the first two bytes are the texture index) and as six 256x256
+     * byte planes laid end to end (plane 5 read at width 257 holds the heights). Both readings are
+     * kept for every byte, so the unknown ones can be compared side by side in the layer inspector.
+     */
+    static decodeSLKLayers(buffer: Uint8Array, binaryOffset: number): SlkLayer[] {
+        const read = (offset: number, rowWidth: number, step: number) => {
+            const values = new Uint8Array(SLK_CELLS)
+            for (let row = 0; row < 256; row++) {
+                for (let col = 0; col < 256; col++) {
+                    // Reads past the block fall into the footer text, as the heights' last row does
+                    const src = binaryOffset + offset + row * rowWidth + col * step
+                    if (src < buffer.length) values[row * 256 + col] = buffer[src]
+                }
+            }
+            return values
+        }
+
+        const low = read(0, 256 * 6, 6)
+        const high = read(1, 256 * 6, 6)
+        const texture = new Uint16Array(SLK_CELLS)
+        for (let i = 0; i < SLK_CELLS; i++) texture[i] = low[i] | (high[i] << 8)
+
+        const layers: SlkLayer[] = [
+            { id: 'texture', name: 'TEXTURE INDEX', known: true, values: texture },
+            { id: 'height', name: 'HEIGHT (PLANE 5 @ 257)', known: true, values: Uint16Array.from(read(SLK_LAYER5_OFFSET, SLK_LAYER5_WIDTH, 1)) }
+        ]
+        for (let b = 0; b < 6; b++) {
+            layers.push({ id: `byte${b}`, name: `RECORD BYTE ${b}`, known: false, values: b === 0 ? low : b === 1 ? high : read(b, 256 * 6, 6) })
         }
+        for (let p = 0; p < 6; p++) {
+            layers.push({ id: `plane${p}`, name: `PLANE ${p}`, known: false, values: read(p * SLK_CELLS, 256, 1) })
+        }
+        return layers
+    }
+
+    /**
+     * Rebuilds an SLK file from parseSLK output. Header lines, the binary block and every footer line
+     * that is not an object record are written back verbatim; records are regenerated only when their
+     * object was edited, so an unmodified level round-trips byte for byte.
+     */
+    static serializeSLK(slk: SlkData): Uint8Array {
+        const source = slk.source
+        if (!source) throw new Error('SLK data has no source information to serialize from')
+
+        if (source.binaryOffset === -1) return binaryStringToBytes(source.header.join('\n'))
+        const header = LevelParser.serializeSLKHeader(slk, source)
+
+        // Cell block: texture indices in the first two bytes of each record, then layer 5 heights.
+        // Heights share bytes with the tail of the record layout, so they are applied last.
+        const binary = source.binary.slice()
+        for (let i = 0; i < SLK_CELLS; i++) {
+            const recordOffset = i * 6
+            if (recordOffset + 2 <= binary.length) {
+                binary[recordOffset] = slk.textureIndices[i] & 0xff
+                binary[recordOffset + 1] = (slk.textureIndices[i] >> 8) & 0xff
+            }
+        }
+        for (let row = 0; row < 256; row++) {
+            for (let col = 0; col < 256; col++) {
+                // The last row runs past the block into the footer text, which is never overwritten
+                const dstIdx = SLK_LAYER5_OFFSET + row * SLK_LAYER5_WIDTH + col
+                if (dstIdx < binary.length) {
+                    binary[dstIdx] = slk.heights[row * 256 + col] & 0xff
+                }
+            }
+        }
+
+        const footer = LevelParser.serializeSLKFooter(slk, source)
+        const bytes = new Uint8Array(header.length + binary.length + footer.length)
+        bytes.set(binaryStringToBytes(header), 0)
+        bytes.set(binary, header.length)
+        bytes.set(binaryStringToBytes(footer), header.length + binary.length)
+        return bytes
+    }
 
-        return { terrain: [], objects, citadels, textureIndices, heights }
+    private static serializeSLKHeader(slk: SlkData, source: SlkSource): string {
+        const start = source.textureLine + 1
+        const end = source.header.length - 1  // The last entry is the empty text after the final newline
+        const original = source.header.slice(start, end)
+        const unchanged = original.length === slk.textures.length && original.every((line, i) => line.trim() === slk.textures[i])
+        if (unchanged) return source.header.join('\n')
+
+        // Rebuild the dimension line count and the names, keeping the file's line ending
+        const eol = source.lineEnding === '\r\n' ? '\r' : ''
+        const dimLine = source.header[source.textureLine].replace(/^(\s*256\s+256\s+)\d+/, `$1${slk.textures.length}`)
+        return [
+            ...source.header.slice(0, source.textureLine),
+            dimLine,
+            ...slk.textures.map(name => name + eol),
+            ''
+        ].join('\n')
     }
 
-    static parseDPH(buffer: Uint8Array): { heights: Uint16Array } {
+    private static serializeSLKFooter(slk: SlkData, source: SlkSource): string {
+        // Queue up the live objects per footer block, in the order they appear in the level data
+        const queues: Record<string, LevelObject[]> = {}
+        const enqueue = (block: string, obj: LevelObject) => {
+            (queues[block] = queues[block] || []).push(obj)
+        }
+        const bases = slk.citadels.filter(c => c.citadel !== undefined)
+        for (const cit of slk.citadels) {
+            if (cit.citadel === undefined) throw new Error(`Citadel at ${cit.x}, ${cit.z} has no citadel block to be written to`)
+            enqueue(`base/${cit.citadel}`, cit)
+        }
+        for (const obj of slk.objects) {
+            if (obj.type === 'SLOT') {
+                enqueue('slots', obj)
+            } else if (obj.type === 'CITADEL_UPGRADE') {
+                let citadel = obj.citadel
+                if (citadel === undefined) {
+                    // New upgrades join the closest citadel
+                    const nearest = bases.reduce<LevelObject | null>((best, c) =>
+                        !best || Math.hypot(c.x - obj.x, c.z - obj.z) < Math.hypot(best.x - obj.x, best.z - obj.z) ? c : best, null)
+                    if (!nearest) throw new Error(`Upgrade at ${obj.x}, ${obj.z} has no citadel to belong to`)
+                    citadel = nearest.citadel
+                }
+                enqueue(`upgrades/${citadel}`, obj)
+            } else if (obj.type.startsWith('OBJ_')) {
+                enqueue('objects', obj)
+            }
+        }
+
+        // Where leftover (newly added) objects of each block go: after its last record or its count line
+        const lastSlot: Record<string, number> = {}
+        source.footer.forEach((entry, i) => {
+            if (entry.kind !== 'text') lastSlot[entry.block] = i
+        })
+
+        const eol = source.lineEnding === '\r\n' ? '\r' : ''
+        const out: string[] = []
+        const emitRemaining = (block: string) => {
+            for (const obj of queues[block] || []) out.push(LevelParser.formatSLKRecord(block, obj, eol))
+            queues[block] = []
+        }
+
+        source.footer.forEach((entry, i) => {
+            if (entry.kind === 'text') {
+                out.push(entry.text)
+            } else if (entry.kind === 'count') {
+                const live = (queues[entry.block] || []).length
+                out.push(live === entry.records ? entry.text : entry.text.replace(/\d+/, String(live)))
+            } else {
+                const obj = (queues[entry.block] || []).shift()
+                if (obj) out.push(LevelParser.formatSLKRecord(entry.block, obj, eol))
+            }
+            if (entry.kind !== 'text' && lastSlot[entry.block] === i) emitRemaining(entry.block)
+        })
+
+        // Blocks the original footer never had (e.g. the first object on a map without any)
+        const missing = Object.keys(queues).filter(block => queues[block].length > 0)
+        if (missing.length > 0) {
+            // Keep the file's trailing newline after the appended lines
+            const trailing = out.length > 0 && out[out.length - 1] === '' ? out.pop() : undefined
+            for (const block of missing) {
+                if (block !== 'slots' && block !== 'objects') throw new Error(`SLK footer has no '${block}' block to write to`)
+                out.push(`${block} ${queues[block].length}${eol}`)
+                emitRemaining(block)
+            }
+            if (trailing !== undefined) out.push(trailing)
+        }
+
+        return out.join('\n')
+    }
+
+    private static formatSLKRecord(block: string, obj: LevelObject, eol: string): string {
+        const src = obj.source
+        const rotation = obj.rotation || 0
+        if (src && src.x === obj.x && src.y === obj.y && src.z === obj.z && src.rotation === rotation && src.param === obj.param) {
+            return src.text
+        }
+
+        // Regenerate the known columns, keep indentation, extra columns and line ending of the original
+        const indent = src ? src.text.match(/^\s*/)![0] : ''
+        const srcParts = src ? src.text.trim().split(/\s+/) : []
+        let parts: string[]
+        if (block === 'objects') {
+            const id = obj.type.replace('OBJ_', '')
+            parts = [id, String(obj.param ?? 0), formatSlkNumber(obj.x), formatSlkNumber(obj.z), formatSlkNumber(obj.y), formatSlkNumber(rotation)]
+        } else if (block.startsWith('base/')) {
+            parts = ['base', formatSlkNumber(obj.x), formatSlkNumber(obj.z), formatSlkNumber(rotation)]
+        } else {
+            parts = [formatSlkNumber(obj.x), formatSlkNumber(obj.z), formatSlkNumber(rotation)]
+        }
+        parts.push(...srcParts.slice(parts.length))
+        return indent + parts.join(' ') + (src ? (src.text.endsWith('\r') ? '\r' : '') : eol)
+    }
+
+    static parseDPH(buffer: Uint8Array): { heights: Uint16Array, diagnostics: ParseDiagnostic[] } {
         const count = 256 * 256
         const heights = new Uint16Array(count)
+        const diagnostics: ParseDiagnostic[] = []
+        if (buffer.length !== count * 2) {
+            const short = buffer.length < count * 2
+            diagnostics.push({
+                severity: short ? 'error' : 'warning',
+                message: short ? `Truncated: ${buffer.length} of ${count * 2} bytes, the rest reads as 0` : `${buffer.length - count * 2} bytes past the 256x256 heights are ignored`,
+                offset: Math.min(buffer.length, count * 2),
+                line: lineCounter(buffer)(Math.min(buffer.length, count * 2))
+            })
+        }
 
         // DPH is exactly 128KB of Little Endian 16-bit heights
         for (let i = 0; i < count; i++) {
@@ -314,6 +856,6 @@ export class LevelParser {
             }
         }
 
-        return { heights }
+        return { heights, diagnostics }
     }
 }
@@ -0,0 +1,145 @@
+import { LflDocument } from './LevelParser'
+
+export type LflValueType = 'file' | 'color' | 'number' | 'integer' | 'text'
+
+export interface LflKeySchema {
+    type: LflValueType
+    description: string
+    min?: number
+    max?: number
+    extension?: string   // Expected extension for file references, used to filter the picker
+    optional?: boolean   // File references that may be left empty or set to NONE
+}
+
+export interface LflIssue {
+    line: number         // Index into LflDocument.lines
+    key: string
+    severity: 'error' | 'warning'
+    message: string
+}
+
+// Known keys, matched case-insensitively
+const KNOWN_KEYS: Record<string, LflKeySchema> = {
+    SLK_FILE: { type: 'file', extension: '.slk', description: 'Terrain and object placement' },
+    SCRIPT_FILE: { type: 'file', extension: '.hzs', description: 'Level script' },
+    MAP_TEXT: { type: 'file', extension: '.cam', description: 'Mission briefing text' },
+    NEIGHBOR_FILE: { type: 'file', optional: true, description: 'Neighbouring sector data' },
+    POLY_SKY: { type: 'text', description: 'Sky model' },
+    FOG_COLOR: { type: 'color', description: 'Fog colour' }
+}
+
+// Families of numeric tuning keys, checked when a key is not listed above
+const KEY_PATTERNS: { pattern: RegExp, schema: LflKeySchema }[] = [
+    { pattern: /RATE/, schema: { type: 'number', min: 0, description: 'Rate' } },
+    { pattern: /LIFESPAN/, schema: { type: 'number', min: 0, description: 'Lifespan' } },
+    { pattern: /POWERUP/, schema: { type: 'integer', min: 0, description: 'Powerup setting' } },
+    { pattern: /DEFENSE/, schema: { type: 'integer', min: 0, description: 'Defense setting' } }
+]
+
+export interface LflColor {
+    r: number
+    g: number
+    b: number
+    format: 'packed' | 'hex' | 'triplet'
+    separator: string
+}
+
+export class LflSchema {
+
+    static lookup(key: string): LflKeySchema | null {
+        const upper = key.trim().toUpperCase()
+        if (KNOWN_KEYS[upper]) return KNOWN_KEYS[upper]
+        const family = KEY_PATTERNS.find(p => p.pattern.test(upper))
+        return family ? family.schema : null
+    }
+
+    // Case-insensitive config lookup; the key written last in the file wins, whatever its case
+    static get(config: Record<string, string>, key: string): string | undefined {
+        let value: string | undefined
+        for (const k of Object.keys(config)) {
+            if (k.toUpperCase() === key) value = config[k]
+        }
+        return value
+    }
+
+    /**
+     * Parses FOG_COLOR style values: a packed 0xRRGGBB integer written in decimal or hex,
+     * or three 0-255 components separated by spaces or commas.
+     */
+    static parseColor(value: string): LflColor | null {
+        const v = value.trim()
+        const triplet = v.match(/^(\d+)(\s*,\s*|\s+)(\d+)\2(\d+)$/)
+        if (triplet) {
+            const [r, g, b] = [triplet[1], triplet[3], triplet[4]].map(n => parseInt(n))
+            if ([r, g, b].some(c => c > 255)) return null
+            return { r, g, b, format: 'triplet', separator: triplet[2] }
+        }
+        const packed = /^0x[0-9a-f]{1,6}$/i.test(v) ? parseInt(v, 16) : (/^\d+$/.test(v) ? parseInt(v) : NaN)
+        if (isNaN(packed) || packed > 0xffffff) return null
+        return {
+            r: (packed >> 16) & 0xff, g: (packed >> 8) & 0xff, b: packed & 0xff,
+            format: v.toLowerCase().startsWith('0x') ? 'hex' : 'packed', separator: ' '
+        }
+    }
+
+    // Writes a colour back in the same notation the original value used
+    static formatColor(color: LflColor): string {
+        const packed = (color.r << 16) | (color.g << 8) | color.b
+        if (color.format === 'triplet') return [color.r, color.g, color.b].join(color.separator)
+        if (color.format === 'hex') return '0x' + packed.toString(16).toUpperCase().padStart(6, '0')
+        return String(packed)
+    }
+
+    static validateValue(schema: LflKeySchema, value: string, gridFiles: string[] | null): string | null {
+        const v = value.trim()
+        switch (schema.type) {
+            case 'file': {
+                if (!v || v.toUpperCase() === 'NONE') return schema.optional ? null : 'Missing file reference'
+                // Without a listing of GRIDS there is nothing to check against
+                if (gridFiles && !gridFiles.some(f => f.toLowerCase() === v.toLowerCase())) return `${v} not found in GRIDS`
+                return null
+            }
+            case 'color':
+                return LflSchema.parseColor(v) ? null : 'Expected a packed RGB value or three 0-255 components'
+            case 'number':
+            case 'integer': {
+                const pattern = schema.type === 'integer' ? /^-?\d+$/ : /^-?(\d+\.?\d*|\.\d+)$/
+                if (!pattern.test(v)) return `Expected ${schema.type === 'integer' ? 'an integer' : 'a number'}`
+                const n = parseFloat(v)
+                if (schema.min !== undefined && n < schema.min) return `Below minimum of ${schema.min}`
+                if (schema.max !== undefined && n > schema.max) return `Above maximum of ${schema.max}`
+                return null
+            }
+            default:
+                return null
+        }
+    }
+
+    static validate(doc: LflDocument, gridFiles: string[] | null): LflIssue[] {
+        const issues: LflIssue[] = []
+        const seen = new Map<string, number>()
+
+        doc.lines.forEach((line, i) => {
+            if (line.kind !== 'entry') return
+            const upper = line.key.trim().toUpperCase()
+            if (!upper) {
+                issues.push({ line: i, key: line.key, severity: 'error', message: 'Empty key' })
+                return
+            }
+            if (seen.has(upper)) {
+                issues.push({ line: seen.get(upper)!, key: line.key, severity: 'warning', message: 'Overridden by a later duplicate' })
+            }
+            seen.set(upper, i)
+
+            const schema = LflSchema.lookup(line.key)
+            if (!schema) {
+                issues.push({ line: i, key: line.key, severity: 'warning', message: 'Unknown key' })
+                return
+            }
+            const problem = LflSchema.validateValue(schema, line.value, gridFiles)
+            if (problem) issues.push({ line: i, key: line.key, severity: 'error', message: problem })
+        })
+
+        return issues
+    }
+}
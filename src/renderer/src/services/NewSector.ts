@@ -0,0 +1,131 @@
+import { LevelParser, LflDocument, LflLine, SlkData } from './LevelParser'
+import { HeightmapIO } from './HeightmapIO'
+import { GRID_SIZE } from './ObjectEdits'
+
+// Another level to start from: its config is copied, its SLK header lends the model list and
+// texture names, and its script can be copied too
+export interface SectorTemplate {
+    name: string
+    lfl: LflDocument
+    slk: SlkData | null
+    script: string | null
+}
+
+export interface NewSectorOptions {
+    name: string                 // Base name, the files are <name>.lfl, <name>.slk, <name>.hzs and <name>.cam
+    template: SectorTemplate | null
+    textures: string[]
+    heights: Uint16Array         // Stored layer 5 heights, inverted like parseSLK reads them
+    script: 'empty' | 'template'
+    objective: string
+    description: string
+}
+
+// Everything a level consists of, ready to be written to GRIDS and its depths and gohs folders
+export interface SectorFiles {
+    lfl: string
+    slk: Uint8Array
+    hzs: string
+    cam: string
+    dph: Uint8Array
+    tga: Uint8Array
+}
+
+type LflEntry = Extract<LflLine, { kind: 'entry' }>
+
+export class NewSector {
+
+    static fileNames(name: string) {
+        return { lfl: `${name}.lfl`, slk: `${name}.slk`, hzs: `${name}.hzs`, cam: `${name}.cam` }
+    }
+
+    static isValidName(name: string): boolean {
+        return /^[A-Za-z0-9_-]+$/.test(name)
+    }
+
+    // A flat sector at the given elevation (0-255, higher is higher ground)
+    static flatHeights(elevation: number): Uint16Array {
+        return new Uint16Array(GRID_SIZE * GRID_SIZE).fill(255 - Math.max(0, Math.min(255, Math.round(elevation))))
+    }
+
+    static build(options: NewSectorOptions): SectorFiles {
+        const names = NewSector.fileNames(options.name)
+        const template = options.template
+
+        // The template's files decide the line endings, the game's own files use CRLF
+        const eol = template?.slk?.source?.lineEnding ?? '\r\n'
+        const slk = LevelParser.emptySLK(template?.slk?.source ? template.slk.source.header.slice(0, Math.max(0, template.slk.source.textureLine)) : [], eol)
+        slk.textures = options.textures
+        slk.heights = options.heights
+        slk.textureIndices = new Uint16Array(GRID_SIZE * GRID_SIZE)
+
+        const lfl = NewSector.config(template?.lfl ?? null, {
+            SLK_FILE: names.slk,
+            SCRIPT_FILE: names.hzs,
+            MAP_TEXT: names.cam,
+            // Neighbour data belongs to the template's surroundings, not the new sector's
+            NEIGHBOR_FILE: 'NONE'
+        })
+
+        return {
+            lfl: LevelParser.serializeLFL(lfl),
+            slk: LevelParser.serializeSLK(slk),
+            hzs: options.script === 'template' && template?.script ? template.script : '',
+            cam: LevelParser.serializeCAM({ objective: options.objective, spyInfo: '', description: options.description }),
+            // The game's DPH scale is not known, so depths are written the way heightmap export writes them
+            dph: HeightmapIO.encodeRAW(HeightmapIO.exportValues(options.heights)),
+            tga: NewSector.minimap(options.heights)
+        }
+    }
+
+    /**
+     * The template's config with the given keys set (matched case-insensitively). Keys the template
+     * does not have are added after its last entry; without a template the config is just these keys.
+     * NEIGHBOR_FILE is only changed where it exists.
+     */
+    private static config(template: LflDocument | null, values: Record<string, string>): LflDocument {
+        const lines = template ? [...template.lines] : []
+        let lastIdx = -1
+        lines.forEach((line, i) => { if (line.kind === 'entry') lastIdx = i })
+        const last = lastIdx !== -1 ? lines[lastIdx] as LflEntry : null
+
+        for (const [key, value] of Object.entries(values)) {
+            const idx = lines.findIndex(l => l.kind === 'entry' && l.key.trim().toUpperCase() === key)
+            if (idx !== -1) {
+                lines[idx] = { ...lines[idx] as LflEntry, value }
+            } else if (key !== 'NEIGHBOR_FILE') {
+                lines.splice(++lastIdx, 0, {
+                    kind: 'entry', key, value,
+                    indent: last?.indent ?? '',
+                    beforeColon: last?.beforeColon ?? '',
+                    afterColon: last?.afterColon ?? ' ',
+                    trailing: last ? (last.trailing.includes('\r') ? '\r' : '') : '\r'
+                })
+            }
+        }
+        // A fresh config still ends with a newline
+        if (!template) lines.push({ kind: 'text', text: '' })
+        return { lines }
+    }
+
+    // Uncompressed 24-bit TGA of the heights, bright for high ground. Minimaps are drawn turned half
+    // a turn against the grid, so the last cell comes first.
+    private static minimap(heights: Uint16Array): Uint8Array {
+        const header = new Uint8Array(18)
+        header[2] = 2                                   // Uncompressed true-colour
+        header[12] = GRID_SIZE & 0xff
+        header[13] = GRID_SIZE >> 8
+        header[14] = GRID_SIZE & 0xff
+        header[15] = GRID_SIZE >> 8
+        header[16] = 24
+        header[17] = 0x20                               // Origin at the top left
+        const bytes = new Uint8Array(header.length + heights.length * 3)
+        bytes.set(header)
+        heights.forEach((raw, i) => {
+            const h = 255 - Math.min(255, raw)
+            const at = header.length + (heights.length - 1 - i) * 3
+            bytes.fill(h, at, at + 3)
+        })
+        return bytes
+    }
+}
@@ -0,0 +1,74 @@
+import { LevelObject, SlkData } from './LevelParser'
+
+// Objects are addressed by the list they live in and their index, matching the marker keys in
+// TerrainView: 'obj-<n>' for slk.objects and 'cit-<n>' for slk.citadels.
+export type ObjectId = string
+
+export type ObjectPatch = Partial<Pick<LevelObject, 'x' | 'y' | 'z' | 'rotation'>>
+
+export const GRID_SIZE = 256
+
+export class ObjectEdits {
+
+    static objectId(list: 'objects' | 'citadels', index: number): ObjectId {
+        return `${list === 'objects' ? 'obj' : 'cit'}-${index}`
+    }
+
+    static getObject(slk: SlkData, id: ObjectId): LevelObject | undefined {
+        const [prefix, index] = id.split('-')
+        return (prefix === 'cit' ? slk.citadels : slk.objects)[parseInt(index)]
+    }
+
+    static allIds(slk: SlkData): ObjectId[] {
+        return [
+            ...slk.objects.map((_, i) => ObjectEdits.objectId('objects', i)),
+            ...slk.citadels.map((_, i) => ObjectEdits.objectId('citadels', i))
+        ]
+    }
+
+    static updateObjects(slk: SlkData, patches: Record<ObjectId, ObjectPatch>): SlkData {
+        const apply = (prefix: string) => (obj: LevelObject, i: number) => {
+            const patch = patches[`${prefix}-${i}`]
+            if (!patch) return obj
+            const next = { ...obj, ...patch }
+            next.x = Math.max(0, Math.min(GRID_SIZE, next.x))
+            next.z = Math.max(0, Math.min(GRID_SIZE, next.z))
+            return next
+        }
+        return { ...slk, objects: slk.objects.map(apply('obj')), citadels: slk.citadels.map(apply('cit')) }
+    }
+
+    static deleteObjects(slk: SlkData, ids: ObjectId[]): SlkData {
+        const doomed = new Set(ids)
+        return {
+            ...slk,
+            objects: slk.objects.filter((_, i) => !doomed.has(`obj-${i}`)),
+            citadels: slk.citadels.filter((_, i) => !doomed.has(`cit-${i}`))
+        }
+    }
+
+    // Adds an OBJ_ record for a model from the SLK header mapping, returning the new data and its id
+    static addModelObject(slk: SlkData, modelId: number, x: number, z: number, y: number): { slk: SlkData, id: ObjectId } {
+        const obj: LevelObject = {
+            type: `OBJ_${modelId}`,
+            x: Math.max(0, Math.min(GRID_SIZE, x)),
+            y,
+            z: Math.max(0, Math.min(GRID_SIZE, z)),
+            rotation: 0,
+            modelName: slk.models[modelId] || `Unknown_${modelId}`,
+            param: 0
+        }
+        return { slk: { ...slk, objects: [...slk.objects, obj] }, id: ObjectEdits.objectId('objects', slk.objects.length) }
+    }
+
+    /**
+     * Terrain height under a grid position in display units, using the same inverted (255 - h)
+     * convention as the terrain mesh.
+     */
+    static terrainHeight(heightMap: Uint16Array | null | undefined, gridX: number, gridZ: number): number {
+        if (!heightMap) return 50  // Default if no heightmap
+        const col = Math.max(0, Math.min(GRID_SIZE - 1, Math.floor(gridX)))
+        const row = Math.max(0, Math.min(GRID_SIZE - 1, Math.floor(gridZ)))
+        return 255 - (heightMap[row * GRID_SIZE + col] || 0)
+    }
+}
@@ -0,0 +1,44 @@
+import * as THREE from 'three'
+import { LevelObject } from './LevelParser'
+import { ObjectEdits } from './ObjectEdits'
+
+// Three.js building blocks for the level scene, shared by the tactical view and the glTF export
+
+// Object coords are in grid units (0-255), world is -1280 to +1280
+export const toWorld = (gridCoord: number) => (gridCoord - 128) * 10
+export const toGrid = (worldCoord: number) => worldCoord / 10 + 128
+
+// Helper to generate a stable random color from an index
+export const getColorForIndex = (index: number): THREE.Color => {
+    // Basic hash
+    const r = ((index * 12345) % 255) / 255
+    const g = ((index * 67890) % 255) / 255
+    const b = ((index * 54321) % 255) / 255
+    return new THREE.Color(r, g, b)
+}
+
+// Blue for a layer's lowest value through to red for its highest, t in 0-1
+export const falseColor = (t: number): THREE.Color => new THREE.Color().setHSL((1 - t) * 2 / 3, 1, 0.5)
+
+// Marker shape and size per object type, shared by the markers, the selection gizmo and exports
+export const markerStyle = (obj: LevelObject): { color: string, scale: [number, number, number], shape: 'CYLINDER' | 'BOX' | 'CONE' } => {
+    if (obj.type === 'CITADEL_BASE') return { color: '#ff0000', scale: [40, 40, 40], shape: 'BOX' }
+    if (obj.type === 'CITADEL_UPGRADE') return { color: '#ffff00', scale: [20, 20, 20], shape: 'BOX' }  // 2.5x larger
+    if (obj.type.startsWith('OBJ_')) return { color: '#00ffff', scale: [12, 25, 12], shape: 'CONE' }  // 3x larger
+    return { color: '#00ff00', scale: [15, 15, 30], shape: 'CYLINDER' }  // Slots, 3x larger for easier selection
+}
+
+// World position of an object's marker, sitting on top of the terrain under it (scaled like the view's terrain)
+export const markerPosition = (obj: LevelObject, heightMap?: Uint16Array | null, verticalScale = 1): THREE.Vector3 => {
+    const terrainY = ObjectEdits.terrainHeight(heightMap, obj.x, obj.z) * verticalScale
+    const lift = obj.type === 'CITADEL_BASE' ? 20 : markerStyle(obj).scale[2] / 2
+    return new THREE.Vector3(toWorld(obj.x), terrainY + lift, toWorld(obj.z))
+}
+
+// Solid version of the marker ObjectMarkers draws, for use outside the view
+export const createMarkerGeometry = (obj: LevelObject): THREE.BufferGeometry => {
+    const { scale, shape } = markerStyle(obj)
+    if (shape === 'BOX') return new THREE.BoxGeometry(scale[0], scale[1], scale[2])
+    if (shape === 'CONE') return new THREE.CylinderGeometry(0, scale[0], scale[1], 8)
+    return new THREE.CylinderGeometry(scale[0], scale[1], scale[2])
+}
@@ -0,0 +1,323 @@
+import * as THREE from 'three'
+import { GRID_SIZE } from './ObjectEdits'
+import { toWorld, toGrid, getColorForIndex, falseColor } from './TerrainScene'
+
+// The tactical view's terrain: a flat grid displaced on the GPU from the heights in a data texture,
+// so edits only re-upload the texture instead of rebuilding the mesh
+
+// How the heights are drawn: as stored, smoothed over a 5x5 neighbourhood, or one flat tile per cell
+export type TerrainDisplayMode = 'raw' | 'smoothed' | 'stepped'
+
+const MODE_INDEX: Record<TerrainDisplayMode, number> = { raw: 0, smoothed: 1, stepped: 2 }
+
+const KERNEL_RADIUS = 2
+
+// Cells whose texture cannot be painted, while painting
+const LOCKED_COLOR = new THREE.Color('#333333')
+
+// Same direction as the scene's directional light
+const LIGHT = new THREE.Vector3(100, 200, 100).normalize()
+
+// Shown height (0-255, before exaggeration) of one cell. Heights are stored inverted.
+const cellHeight = (heights: Uint16Array, mode: TerrainDisplayMode, col: number, row: number): number => {
+    const stored = (c: number, r: number) => 255 - (heights[r * GRID_SIZE + c] ?? 0)
+    col = Math.max(0, Math.min(GRID_SIZE - 1, col))
+    row = Math.max(0, Math.min(GRID_SIZE - 1, row))
+    if (mode !== 'smoothed') return stored(col, row)
+
+    let sum = 0
+    let weightSum = 0
+    for (let dr = -KERNEL_RADIUS; dr <= KERNEL_RADIUS; dr++) {
+        for (let dc = -KERNEL_RADIUS; dc <= KERNEL_RADIUS; dc++) {
+            const r = row + dr
+            const c = col + dc
+            if (r < 0 || r >= GRID_SIZE || c < 0 || c >= GRID_SIZE) continue
+            const weight = Math.exp(-(dr * dr + dc * dc) / 4)
+            sum += stored(c, r) * weight
+            weightSum += weight
+        }
+    }
+    return sum / weightSum
+}
+
+/**
+ * Height of the drawn surface at a grid position, before exaggeration. Raw and smoothed vertices sit
+ * on whole grid coordinates with the surface interpolated in between; stepped tiles cover [c, c+1).
+ */
+export const surfaceHeight = (heights: Uint16Array, mode: TerrainDisplayMode, gridX: number, gridZ: number): number => {
+    if (mode === 'stepped') return cellHeight(heights, mode, Math.floor(gridX), Math.floor(gridZ))
+    const x = Math.max(0, Math.min(GRID_SIZE - 1, gridX))
+    const z = Math.max(0, Math.min(GRID_SIZE - 1, gridZ))
+    const c = Math.floor(x)
+    const r = Math.floor(z)
+    const fx = x - c
+    const fz = z - r
+    const top = cellHeight(heights, mode, c, r) * (1 - fx) + cellHeight(heights, mode, c + 1, r) * fx
+    const bottom = cellHeight(heights, mode, c, r + 1) * (1 - fx) + cellHeight(heights, mode, c + 1, r + 1) * fx
+    return top * (1 - fz) + bottom * fz
+}
+
+/**
+ * The flat grid the shader displaces, lying in XZ at world scale. Each vertex carries the cell it shows
+ * in its 'cell' attribute. The stepped grid has two vertices per cell edge: both corners of a tile read
+ * the same cell, and the zero-width quads between tiles become the walls.
+ */
+export const createTerrainGrid = (stepped: boolean): THREE.BufferGeometry => {
+    const n = stepped ? GRID_SIZE * 2 : GRID_SIZE
+    const gridAt = (k: number) => stepped ? Math.floor((k + 1) / 2) : k
+    const cellAt = (k: number) => stepped ? Math.floor(k / 2) : k
+
+    const position = new Float32Array(n * n * 3)
+    const cell = new Float32Array(n * n * 2)
+    for (let row = 0; row < n; row++) {
+        for (let col = 0; col < n; col++) {
+            const i = row * n + col
+            position.set([toWorld(gridAt(col)), 0, toWorld(gridAt(row))], i * 3)
+            cell.set([cellAt(col), cellAt(row)], i * 2)
+        }
+    }
+
+    const index = new Uint32Array((n - 1) * (n - 1) * 6)
+    let o = 0
+    for (let row = 0; row < n - 1; row++) {
+        for (let col = 0; col < n - 1; col++) {
+            const a = row * n + col
+            index.set([a, a + n, a + 1, a + 1, a + n, a + n + 1], o)
+            o += 6
+        }
+    }
+
+    const geo = new THREE.BufferGeometry()
+    geo.setIndex(new THREE.BufferAttribute(index, 1))
+    geo.setAttribute('position', new THREE.BufferAttribute(position, 3))
+    geo.setAttribute('cell', new THREE.BufferAttribute(cell, 2))
+    return geo
+}
+
+const vertexShader = /* glsl */ `
+uniform sampler2D uHeights;
+uniform int uMode;
+uniform float uExaggeration;
+
+in vec2 cell;
+
+out vec3 vWorld;
+out vec3 vNormal;
+out vec2 vGrid;
+
+float stored(ivec2 c) {
+    return texelFetch(uHeights, clamp(c, ivec2(0), ivec2(${GRID_SIZE - 1})), 0).r;
+}
+
+float shown(ivec2 c) {
+    if (uMode != 1) return stored(c);
+    float sum = 0.0;
+    float weightSum = 0.0;
+    for (int dr = -${KERNEL_RADIUS}; dr <= ${KERNEL_RADIUS}; dr++) {
+        for (int dc = -${KERNEL_RADIUS}; dc <= ${KERNEL_RADIUS}; dc++) {
+            ivec2 n = c + ivec2(dc, dr);
+            if (n.x < 0 || n.y < 0 || n.x > ${GRID_SIZE - 1} || n.y > ${GRID_SIZE - 1}) continue;
+            float weight = exp(-float(dr * dr + dc * dc) / 4.0);
+            sum += stored(n) * weight;
+            weightSum += weight;
+        }
+    }
+    return sum / weightSum;
+}
+
+void main() {
+    ivec2 c = ivec2(cell);
+    vec3 p = vec3(position.x, shown(c) * uExaggeration, position.z);
+
+    // Slope across the neighbouring cells, 10 world units apart
+    if (uMode != 2) {
+        float dx = (shown(c + ivec2(1, 0)) - shown(c - ivec2(1, 0))) * uExaggeration / 20.0;
+        float dz = (shown(c + ivec2(0, 1)) - shown(c - ivec2(0, 1))) * uExaggeration / 20.0;
+        vNormal = normalize(vec3(-dx, 1.0, -dz));
+    } else {
+        vNormal = vec3(0.0, 1.0, 0.0);
+    }
+
+    vWorld = (modelMatrix * vec4(p, 1.0)).xyz;
+    vGrid = vWorld.xz / 10.0 + 128.0;
+    gl_Position = projectionMatrix * viewMatrix * vec4(vWorld, 1.0);
+}
+`
+
+const fragmentShader = /* glsl */ `
+uniform int uMode;
+uniform int uSource;
+uniform sampler2D uColors;
+uniform sampler2D uMap;
+uniform mat3 uMapTransform;
+uniform vec3 uBaseColor;
+uniform vec3 uLight;
+
+in vec3 vWorld;
+in vec3 vNormal;
+in vec2 vGrid;
+
+void main() {
+    // Tiles and walls are flat, their face normal comes from the screen-space derivatives
+    vec3 n = uMode == 2 ? normalize(cross(dFdx(vWorld), dFdy(vWorld))) : normalize(vNormal);
+    n = faceforward(n, vWorld - cameraPosition, n);
+
+    vec3 color = uBaseColor;
+    if (uSource == 1) {
+        // Vertices sit on cell coordinates on the smooth grids and on tile corners on the stepped one
+        ivec2 c = ivec2(floor(vGrid + (uMode == 2 ? 0.0 : 0.5)));
+        color = texelFetch(uColors, clamp(c, ivec2(0), ivec2(${GRID_SIZE - 1})), 0).rgb;
+    } else if (uSource == 2) {
+        vec2 uv = vec2(vGrid.x, ${GRID_SIZE - 1}.0 - vGrid.y) / ${GRID_SIZE - 1}.0;
+        color = texture(uMap, (uMapTransform * vec3(uv, 1.0)).xy).rgb;
+    }
+
+    gl_FragColor = vec4(color * (0.6 + 0.4 * max(dot(n, uLight), 0.0)), 1.0);
+    #include <colorspace_fragment>
+}
+`
+
+/**
+ * Draws a terrain grid from createTerrainGrid. The heights and per-cell colours live in data textures
+ * owned by the material; the minimap, when there is one, is drawn with its own texture transform.
+ */
+export class TerrainSurfaceMaterial extends THREE.ShaderMaterial {
+    private heights: THREE.DataTexture
+    private colors: THREE.DataTexture
+    private hasColors = false
+
+    constructor() {
+        const heights = new THREE.DataTexture(new Float32Array(GRID_SIZE * GRID_SIZE), GRID_SIZE, GRID_SIZE, THREE.RedFormat, THREE.FloatType)
+        const colors = new THREE.DataTexture(new Uint8Array(GRID_SIZE * GRID_SIZE * 4), GRID_SIZE, GRID_SIZE, THREE.RGBAFormat, THREE.UnsignedByteType)
+        super({
+            glslVersion: THREE.GLSL3,
+            vertexShader,
+            fragmentShader,
+            side: THREE.DoubleSide,
+            uniforms: {
+                uHeights: { value: heights },
+                uColors: { value: colors },
+                uMap: { value: null },
+                uMapTransform: { value: new THREE.Matrix3() },
+                uMode: { value: 0 },
+                uSource: { value: 0 },
+                uExaggeration: { value: 1 },
+                uBaseColor: { value: new THREE.Color('#4caf50') },
+                uLight: { value: LIGHT }
+            }
+        })
+        this.heights = heights
+        this.colors = colors
+        // Without colours or a minimap the terrain is a wireframe, as it always was
+        this.wireframe = true
+    }
+
+    setHeights(heightMap: Uint16Array) {
+        const data = this.heights.image.data as Float32Array
+        for (let i = 0; i < data.length; i++) data[i] = 255 - (heightMap[i] ?? 0)
+        this.heights.needsUpdate = true
+    }
+
+    // Cell colours from the inspected layer in false colour, else the texture indices (greyed out from
+    // lockedFrom on), else none
+    setColors(textureIndices?: Uint16Array | null, overlay?: Uint8Array | Uint16Array | null, lockedFrom?: number | null) {
+        if (overlay) {
+            let min = Infinity
+            let max = -Infinity
+            for (const v of overlay) {
+                if (v < min) min = v
+                if (v > max) max = v
+            }
+            this.fillColors(i => falseColor(i < overlay.length && max > min ? (overlay[i] - min) / (max - min) : 0))
+        } else if (textureIndices) {
+            this.fillColors(i => lockedFrom != null && i >= lockedFrom ? LOCKED_COLOR : getColorForIndex(textureIndices[i] ?? 0))
+        }
+        this.hasColors = !!(overlay || textureIndices)
+        this.updateSource()
+    }
+
+    // The minimap wins over cell colours; the texture's center and rotation are honoured
+    setMap(texture: THREE.Texture | null) {
+        this.uniforms.uMap.value = texture
+        if (texture) {
+            texture.updateMatrix()
+            this.uniforms.uMapTransform.value.copy(texture.matrix)
+        }
+        this.updateSource()
+    }
+
+    setMode(mode: TerrainDisplayMode) {
+        this.uniforms.uMode.value = MODE_INDEX[mode]
+    }
+
+    setExaggeration(exaggeration: number) {
+        this.uniforms.uExaggeration.value = exaggeration
+    }
+
+    dispose() {
+        this.heights.dispose()
+        this.colors.dispose()
+        super.dispose()
+    }
+
+    private fillColors(colorAt: (i: number) => THREE.Color) {
+        const data = this.colors.image.data as Uint8Array
+        for (let i = 0; i < GRID_SIZE * GRID_SIZE; i++) {
+            const col = colorAt(i)
+            data.set([col.r * 255, col.g * 255, col.b * 255, 255], i * 4)
+        }
+        this.colors.needsUpdate = true
+    }
+
+    private updateSource() {
+        const source = this.uniforms.uMap.value ? 2 : this.hasColors ? 1 : 0
+        this.uniforms.uSource.value = source
+        this.wireframe = source === 0
+    }
+}
+
+// Distance a ray advances between surface tests, in world units (a cell is 10)
+const RAY_STEP = 4
+const RAY_REFINE = 10
+
+/**
+ * Raycast for the displaced terrain mesh. The geometry on the CPU is flat, so the ray is marched
+ * against surfaceHeight instead and the crossing refined by bisection; pointer events then land where
+ * the terrain is drawn. The mesh is expected to sit at the origin, untransformed.
+ */
+export const raycastSurface = (heights: Uint16Array, mode: TerrainDisplayMode, exaggeration: number) => {
+    const bounds = new THREE.Box3(
+        new THREE.Vector3(toWorld(0), -1, toWorld(0)),
+        new THREE.Vector3(toWorld(GRID_SIZE), 255 * exaggeration + 1, toWorld(GRID_SIZE))
+    )
+    const point = new THREE.Vector3()
+    const below = (ray: THREE.Ray, t: number) => {
+        ray.at(t, point)
+        return point.y <= surfaceHeight(heights, mode, toGrid(point.x), toGrid(point.z)) * exaggeration
+    }
+
+    return function (this: THREE.Object3D, raycaster: THREE.Raycaster, intersects: THREE.Intersection[]) {
+        const ray = raycaster.ray
+        const start = bounds.containsPoint(ray.origin) ? 0 : ray.intersectBox(bounds, point) ? ray.origin.distanceTo(point) : null
+        if (start === null) return
+
+        let before = start
+        for (let t = start; t <= raycaster.far; t += RAY_STEP) {
+            ray.at(t, point)
+            if (t > start && !bounds.containsPoint(point)) return
+            if (!below(ray, t)) {
+                before = t
+                continue
+            }
+            let after = t
+            for (let i = 0; i < RAY_REFINE && after > before; i++) {
+                const mid = (before + after) / 2
+                if (below(ray, mid)) after = mid
+                else before = mid
+            }
+            if (after < raycaster.near) return
+            intersects.push({ distance: after, point: ray.at(after, new THREE.Vector3()), object: this })
+            return
+        }
+    }
+}
@@ -0,0 +1,89 @@
+import { GRID_SIZE } from './ObjectEdits'
+import { SLK_FIRST_SHARED_CELL } from './LevelParser'
+
+export type PaintMode = 'brush' | 'fill' | 'replace'
+
+export interface PaintSettings {
+    mode: PaintMode
+    index: number   // Texture index written into the cells
+    radius: number  // Brush radius in grid cells
+}
+
+// All operations return a new array and leave the input untouched. Cells whose texture bytes are
+// shared with the heights are never painted: saving would overwrite them.
+export class TexturePaint {
+
+    static isLocked(cell: number): boolean {
+        return cell >= SLK_FIRST_SHARED_CELL
+    }
+
+    static cellAt(x: number, z: number): number | null {
+        const col = Math.floor(x)
+        const row = Math.floor(z)
+        if (col < 0 || col >= GRID_SIZE || row < 0 || row >= GRID_SIZE) return null
+        return row * GRID_SIZE + col
+    }
+
+    static brush(indices: Uint16Array, cx: number, cz: number, radius: number, index: number): Uint16Array {
+        const next = indices.slice()
+        let changed = false
+        const minRow = Math.max(0, Math.floor(cz - radius))
+        const maxRow = Math.min(GRID_SIZE - 1, Math.floor(cz + radius))
+        const minCol = Math.max(0, Math.floor(cx - radius))
+        const maxCol = Math.min(GRID_SIZE - 1, Math.floor(cx + radius))
+        for (let row = minRow; row <= maxRow; row++) {
+            for (let col = minCol; col <= maxCol; col++) {
+                // Measure from cell centres so a radius of 0.5 paints exactly one cell
+                const cell = row * GRID_SIZE + col
+                if (!TexturePaint.isLocked(cell) && Math.hypot(col + 0.5 - cx, row + 0.5 - cz) <= Math.max(radius, 0.5)) {
+                    changed ||= next[cell] !== index
+                    next[cell] = index
+                }
+            }
+        }
+        return changed ? next : indices
+    }
+
+    // Flood fills the 4-connected region sharing the index of the cell under (x, z)
+    static fill(indices: Uint16Array, x: number, z: number, index: number): Uint16Array {
+        const start = TexturePaint.cellAt(x, z)
+        if (start === null || TexturePaint.isLocked(start) || indices[start] === index) return indices
+        const next = indices.slice()
+        const from = indices[start]
+        const stack = [start]
+        next[start] = index
+        while (stack.length > 0) {
+            const cell = stack.pop()!
+            const row = Math.floor(cell / GRID_SIZE)
+            const col = cell % GRID_SIZE
+            const neighbours = [
+                col > 0 ? cell - 1 : -1,
+                col < GRID_SIZE - 1 ? cell + 1 : -1,
+                row > 0 ? cell - GRID_SIZE : -1,
+                row < GRID_SIZE - 1 ? cell + GRID_SIZE : -1
+            ]
+            for (const n of neighbours) {
+                if (n !== -1 && !TexturePaint.isLocked(n) && next[n] === from) {
+                    next[n] = index
+                    stack.push(n)
+                }
+            }
+        }
+        return next
+    }
+
+    // Swaps every cell using the index under (x, z) for the new index, anywhere on the map
+    static replaceAll(indices: Uint16Array, x: number, z: number, index: number): Uint16Array {
+        const start = TexturePaint.cellAt(x, z)
+        if (start === null || TexturePaint.isLocked(start)) return indices
+        const from = indices[start]
+        if (from === index) return indices
+        return indices.map((v, i) => v === from && !TexturePaint.isLocked(i) ? index : v)
+    }
+
+    static usage(indices: Uint16Array): Map<number, number> {
+        const counts = new Map<number, number>()
+        for (const v of indices) counts.set(v, (counts.get(v) || 0) + 1)
+        return counts
+    }
+}
@@ -0,0 +1,43 @@
+import { SlkData } from './LevelParser'
+
+// A computation running in a worker. The promise resolves to null once the job is cancelled.
+export interface WorkerJob<T> {
+    promise: Promise<T | null>
+    cancel: () => void
+}
+
+type WorkerMessage<T> = { type: 'progress', progress: number } | { type: 'done', result: T }
+
+// Hands one message to a fresh worker; cancelling terminates it, however far it got
+const runOnce = <T>(worker: Worker, message: unknown, transfer: Transferable[], onProgress?: (progress: number) => void): WorkerJob<T> => {
+    let settle: (value: T | null) => void = () => {}
+    const promise = new Promise<T | null>((resolve, reject) => {
+        settle = resolve
+        worker.onmessage = (e: MessageEvent<WorkerMessage<T>>) => {
+            if (e.data.type === 'progress') return onProgress?.(e.data.progress)
+            worker.terminate()
+            resolve(e.data.result)
+        }
+        worker.onerror = (e) => {
+            worker.terminate()
+            reject(new Error(e.message))
+        }
+    })
+    worker.postMessage(message, transfer)
+    return {
+        promise,
+        cancel: () => {
+            worker.terminate()
+            settle(null)
+        }
+    }
+}
+
+export class Workers {
+
+    // The bytes are moved to the worker and cannot be used by the caller afterwards
+    static parseSLK(bytes: Uint8Array, onProgress?: (progress: number) => void): WorkerJob<SlkData> {
+        const worker = new Worker(new URL('../workers/SlkWorker.ts', import.meta.url), { type: 'module' })
+        return runOnce(worker, { bytes }, [bytes.buffer as ArrayBuffer], onProgress)
+    }
+}
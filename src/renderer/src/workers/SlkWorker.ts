@@ -0,0 +1,21 @@
+import { LevelParser, SlkData } from '../services/LevelParser'
+
+// Parses one SLK off the UI thread and moves the decoded typed arrays back instead of copying them
+const ctx = self as unknown as Worker
+
+ctx.onmessage = (e: MessageEvent<{ bytes: Uint8Array }>) => {
+    // Whole percents only, so a long footer doesn't flood the UI thread with messages
+    let percent = -1
+    const slk: SlkData = LevelParser.parseSLK(e.data.bytes, progress => {
+        if (Math.floor(progress * 100) === percent) return
+        percent = Math.floor(progress * 100)
+        ctx.postMessage({ type: 'progress', progress })
+    })
+    const buffers = new Set<ArrayBufferLike>([
+        slk.heights.buffer,
+        slk.textureIndices.buffer,
+        ...slk.layers.map(l => l.values.buffer),
+        ...(slk.source ? [slk.source.binary.buffer] : [])
+    ])
+    ctx.postMessage({ type: 'done', result: slk }, [...buffers] as Transferable[])
+}
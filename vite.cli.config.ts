@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite'
+
+// Builds the headless CLI (src/cli) into a single Node script next to the Electron output
+export default defineConfig({
+    build: {
+        ssr: 'src/cli/index.ts',
+        outDir: 'out/cli',
+        target: 'node20',
+        rollupOptions: {
+            output: {
+                format: 'cjs',
+                entryFileNames: 'hotzone.js',
+                banner: '#!/usr/bin/env node'
+            }
+        }
+    }
+})